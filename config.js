@@ -3,24 +3,20 @@ let master = {
     setup: {
       width: 50,
       height: 50,
-      speedFactor: 5,
-      jumpFactor: -20
+      speedFactor: 300, // px per second
+      jumpFactor: -1200 // px per second
     },
     animations: {
       idle: {
-        src: "./img/king/idle.png",
+        src: "./img/Sprites/01-King Human/Idle (78x58).png",
         maxFrames: 11
       },
-      runLeft: {
-        src: "./img/king/runLeft.png",
-        maxFrames: 8
-      },
-      runRight: {
-        src: "./img/king/runRight.png",
+      run: {
+        src: "./img/Sprites/01-King Human/Run (78x58).png",
         maxFrames: 8
       },
       enterDoor: {
-        src: "./img/king/enterDoor.png",
+        src: "./img/Sprites/01-King Human/Door In (78x58).png",
         maxFrames: 8
       }
     }
@@ -84,7 +80,7 @@ let master = {
     }
   },
   game: {
-    gravity: 1,
+    gravity: 3600, // px per second squared
     startLevel: 1
   }
 }
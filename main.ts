@@ -146,7 +146,8 @@
    * get drawn onto the canvas. It only serves to check whether
    * the player or others collide with certain areas of the map.
    */
-  class CollisionBlock {
+  class CollisionBlock implements Entity {
+    readonly kind = 'solid';
     pos: Vector2D;
     w: number;
     h: number;
@@ -159,6 +160,52 @@
       this.w = w;
       this.h = h;
     }
+
+    get box(): Box {
+      return { x: this.pos.x, y: this.pos.y, w: this.w, h: this.h };
+    }
+
+    contains(x: number, y: number): boolean {
+      return x >= this.pos.x && x <= this.pos.x + this.w &&
+        y >= this.pos.y && y <= this.pos.y + this.h;
+    }
+
+    canDropThrough(): boolean {
+      return false;
+    }
+
+    blocksX(actor: Actor, dx: number): boolean {
+      /**
+       * Does the block stop an actor moving dx along X?
+       * Grounded actors step up onto blocks that are barely
+       * higher than their feet (e.g. at the top of a slope)
+       * instead of getting stuck on the corner.
+       */
+      let step = actor.grounded ? STEP_HEIGHT : 0;
+      return actor.pos.y + actor.height - this.pos.y > step;
+    }
+
+    topFor(actor: Actor, oldY: number, newY: number, reach: number): number {
+      /**
+       * Where a falling actor lands on this block, or null if it doesn't.
+       * oldY, newY - the actor's y before and after the move
+       * reach      - px below newY the actor can still snap down to
+       */
+      if(newY + actor.height + reach < this.pos.y) return null;
+      // Started below the block (touching its bottom doesn't count)
+      if(oldY >= this.pos.y + this.h) return null;
+      return this.pos.y;
+    }
+
+    bottomFor(actor: Actor, oldY: number, newY: number): number {
+      /**
+       * Where a rising actor bumps its head on this block, or null.
+       */
+      if(newY > this.pos.y + this.h) return null;
+      if(oldY + actor.height <= this.pos.y) return null;
+      return this.pos.y + this.h;
+    }
+
     draw(ctx: CanvasRenderingContext2D){
       /**
        * Draws a red rectangle with red color fill.
@@ -179,12 +226,137 @@
   }
 
 
+  /**
+   * A OneWayPlatform only stops actors falling onto its top.
+   * Actors jump through it from below and can drop down through it.
+   */
+  class OneWayPlatform extends CollisionBlock {
+    canDropThrough(): boolean {
+      return true;
+    }
+
+    blocksX(actor: Actor, dx: number): boolean {
+      return false;
+    }
+
+    topFor(actor: Actor, oldY: number, newY: number, reach: number): number {
+      if(actor.dropTimer > 0) return null;
+      // Only when it was above the platform before the move
+      if(oldY + actor.height > this.pos.y + PLATFORM_TOLERANCE) return null;
+      if(newY + actor.height + reach < this.pos.y) return null;
+      return this.pos.y;
+    }
+
+    bottomFor(actor: Actor, oldY: number, newY: number): number {
+      return null;
+    }
+
+    draw(ctx: CanvasRenderingContext2D){
+      ctx.save();
+      ctx.fillStyle = 'rgba(255, 0, 0, 0.15)';
+      ctx.fillRect(this.pos.x, this.pos.y, this.w, this.h);
+      ctx.fillStyle = 'rgba(255, 0, 0, 0.6)';
+      ctx.fillRect(this.pos.x, this.pos.y, this.w, 4);
+      ctx.restore();
+    }
+  }
+
+
+  /**
+   * A Slope is a tile with a straight floor from one side to the other.
+   * left and right are the floor heights at each side, as a
+   * fraction of the tile height (0 bottom, 1 top).
+   * Actors stand on the highest point of the floor under their hitbox.
+   */
+  class Slope extends CollisionBlock {
+    left: number;
+    right: number;
+
+    constructor(x: number, y: number, w: number, h: number, setup: SlopeSetup){
+      super(x, y, w, h);
+      this.left = setup.left;
+      this.right = setup.right;
+    }
+
+    surfaceAt(x: number): number {
+      /**
+       * Canvas y of the floor at x (clamped to the tile).
+       */
+      let t = Math.min(1, Math.max(0, (x - this.pos.x) / this.w));
+      let height = this.left + (this.right - this.left) * t;
+      return this.pos.y + this.h - height * this.h;
+    }
+
+    surfaceUnder(actor: Actor): number {
+      /**
+       * Highest floor point under the actor's hitbox, or null
+       * if the actor isn't over the slope.
+       */
+      let x0 = Math.max(actor.pos.x, this.pos.x);
+      let x1 = Math.min(actor.pos.x + actor.width, this.pos.x + this.w);
+      if(x0 > x1) return null;
+      // The floor is a straight line, so the highest point is at one end
+      return Math.min(this.surfaceAt(x0), this.surfaceAt(x1));
+    }
+
+    contains(x: number, y: number): boolean {
+      return super.contains(x, y) && y >= this.surfaceAt(x);
+    }
+
+    blocksX(actor: Actor, dx: number): boolean {
+      /**
+       * Only the side an actor walks in from can be a wall,
+       * and only as high as the floor is on that side.
+       */
+      let entering = dx > 0
+        ? actor.pos.x + actor.width <= this.pos.x + 0.01
+        : actor.pos.x >= this.pos.x + this.w - 0.01;
+      if(!entering) return false;
+      let edge = this.surfaceAt(dx > 0 ? this.pos.x : this.pos.x + this.w);
+      let step = actor.grounded ? STEP_HEIGHT : 0;
+      return actor.pos.y + actor.height - edge > step;
+    }
+
+    topFor(actor: Actor, oldY: number, newY: number, reach: number): number {
+      let top = this.surfaceUnder(actor);
+      if(top === null) return null;
+      // Walking uphill raises the floor by up to the distance moved
+      let climb = Math.abs(actor.pos.x - actor.prevPos.x) + GROUND_SNAP;
+      if(oldY + actor.height > top + climb) return null;
+      if(newY + actor.height + reach < top) return null;
+      return top;
+    }
+
+    bottomFor(actor: Actor, oldY: number, newY: number): number {
+      // Only a head bump from fully below the tile
+      let bottom = this.pos.y + this.h;
+      if(oldY < bottom - PLATFORM_TOLERANCE || newY > bottom) return null;
+      return bottom;
+    }
+
+    draw(ctx: CanvasRenderingContext2D){
+      ctx.save();
+      ctx.beginPath();
+      ctx.moveTo(this.pos.x, this.surfaceAt(this.pos.x));
+      ctx.lineTo(this.pos.x + this.w, this.surfaceAt(this.pos.x + this.w));
+      ctx.lineTo(this.pos.x + this.w, this.pos.y + this.h);
+      ctx.lineTo(this.pos.x, this.pos.y + this.h);
+      ctx.closePath();
+      ctx.fillStyle = 'rgba(255, 0, 0, 0.15)';
+      ctx.fill();
+      ctx.restore();
+    }
+  }
+
+
   /**
    * A SpawnPlace only contains a point.
    * This is where the player will respawn 
    * on level load.
    */
-  class SpawnPlace extends Point{
+  class SpawnPlace extends Point implements Entity {
+    readonly kind = 'spawn';
+
     constructor(x: number, y: number){
       /**
        * x, y - positions on X and Y axis.
@@ -201,7 +373,7 @@
    */
   class MapSprite {
     pos: Vector2D;
-    image: CanvasImageSource;
+    image: HTMLImageElement;
     loaded: boolean;
     imageSetup: ImageSetup = {
       src: '',
@@ -217,114 +389,396 @@
     constructor(args: MapSpriteOptions) {
       /**
        * pos - Vector2D of x,y position
-       * image - HTML Image Element
+       * image - HTML Image Element, null when running headless
        * loaded - boolean flag
        * imageSetup - ImageSetup
        * tiles - TilesSetup
        */
       this.pos = new Vector2D(0, 0);
-      this.image = new Image();
-      this.image.src = args.imageSetup.src;
-      this.image.onload = () => { // FIXME: remove this to use <img> html
-        this.loaded = true;
-      };
+      this.image = args.image;
+      this.loaded = false;
+      if(args.image){
+        args.image.onload = () => {
+          this.loaded = true;
+        };
+      }
       this.tiles = args.tiles;
       this.imageSetup = args.imageSetup;    
     }
 
-    draw(ctx: CanvasRenderingContext2D) {
+    draw(ctx: CanvasRenderingContext2D, width: number, height: number) {
       /**
-       * Draw the map image onto the canvas;
-       * Assumes image will cover 100% of the canvas.
+       * Draw the map image stretched to the given size;
+       * Assumes image will cover the whole level.
        */
       if (!this.loaded) return // Skip if not loaded
       ctx.drawImage(
         this.image,
         this.pos.x, 
         this.pos.y,
-        GAME.canvas.width,
-        GAME.canvas.height);
+        width,
+        height);
+    }
+  }
+
+
+  /**
+   * Speech bubbles by name, with the file name of their sheets.
+   * Each has an "In" sheet (pops up) and an "Out" sheet (goes away).
+   */
+  const SPEECH_BUBBLES: {[bubble: string]: string} = {
+    exclaim: '!!!',
+    attack: 'Attack',
+    boom: 'Boom',
+    dead: 'Dead',
+    hello: 'Hello',
+    hi: 'Hi',
+    question: 'Interrogation',
+    loser: 'Loser',
+    no: 'No',
+    wtf: 'WTF'
+  };
+
+  function bubbleAtlases(): {[id: string]: SpriteAtlas} {
+    /**
+     * bubble_<name>_in and bubble_<name>_out for every SPEECH_BUBBLES entry.
+     * The sheets are named 24x8 but their frames are 34x16.
+     */
+    let atlases: {[id: string]: SpriteAtlas} = {};
+    for(let bubble in SPEECH_BUBBLES){
+      let path = `./img/Sprites/13-Dialogue Boxes/${SPEECH_BUBBLES[bubble]}`;
+      atlases[`bubble_${bubble}_in`] = { image: `${path} In (24x8).png`, grid: { width: 34, height: 16, count: 3 }, pivot: BUBBLE_PIVOT };
+      atlases[`bubble_${bubble}_out`] = { image: `${path} Out (24x8).png`, grid: { width: 34, height: 16, count: 2 }, pivot: BUBBLE_PIVOT };
+    }
+    return atlases;
+  }
+
+  /**
+   * Every sprite sheet the game uses (see SpriteAtlas).
+   * Images are loaded from these paths, nothing has to be added
+   * to index.html. More atlases can be added at runtime with
+   * HeadlessAssets.loadAtlas().
+   * The simulation waits on animations (attacks, deaths, doors),
+   * so frame timings live here too and run the same without a page.
+   */
+  const KING_PIVOT = { x: 39, y: 29 }; // middle of the frame, on the hitbox centre
+  const PIG_PIVOT = { x: 17, y: 28 };  // feet, on the hitbox bottom
+  const ITEM_PIVOT = { x: 9, y: 7 };  // middle of the frame, on the hitbox centre
+  const BUBBLE_PIVOT = { x: 8, y: 16 }; // tip of the bubble's tail
+  const THROWER_PIVOT = { x: 14, y: 30 }; // feet, on the hitbox bottom
+  const BOMB_PIVOT = { x: 26, y: 32 };    // middle of the bomb
+  const CANNON_PIVOT = { x: 29, y: 25 };  // middle of the base, on the floor
+  const SPRITE_ATLASES: {[id: string]: SpriteAtlas} = {
+    lives_bar: { image: './img/decor/liveBar.png', grid: { width: 66, height: 34, count: 1 } },
+    heart_idle: { image: './img/decor/heartIdle.png', grid: { width: 18, height: 14, count: 8 }, pivot: ITEM_PIVOT },
+    heart_lost: { image: './img/Sprites/12-Live and Coins/Small Heart Hit (18x14).png', grid: { width: 18, height: 14, count: 2 }, pivot: ITEM_PIVOT, duration: 150 },
+    king_idle: { image: './img/Sprites/01-King Human/Idle (78x58).png', grid: { width: 78, height: 58, count: 11 }, pivot: KING_PIVOT },
+    king_run: { image: './img/Sprites/01-King Human/Run (78x58).png', grid: { width: 78, height: 58, count: 8 }, pivot: KING_PIVOT },
+    king_jump: { image: './img/Sprites/01-King Human/Jump (78x58).png', grid: { width: 78, height: 58, count: 1 }, pivot: KING_PIVOT },
+    king_fall: { image: './img/Sprites/01-King Human/Fall (78x58).png', grid: { width: 78, height: 58, count: 1 }, pivot: KING_PIVOT },
+    king_ground: { image: './img/Sprites/01-King Human/Ground (78x58).png', grid: { width: 78, height: 58, count: 1 }, pivot: KING_PIVOT, duration: 120 },
+    king_door_in: { image: './img/Sprites/01-King Human/Door In (78x58).png', grid: { width: 78, height: 58, count: 8 }, pivot: KING_PIVOT, duration: 120 },
+    king_attack: { image: './img/king/attack.png', grid: { width: 78, height: 58, count: 3 }, pivot: KING_PIVOT, duration: 120 },
+    king_dead: { image: './img/Sprites/01-King Human/Dead (78x58).png', grid: { width: 78, height: 58, count: 4 }, pivot: KING_PIVOT, duration: 150 },
+    door_idle: { image: './img/Sprites/11-Door/Idle.png', grid: { width: 46, height: 56, count: 1 } },
+    door_opening: { image: './img/Sprites/11-Door/Opening (46x56).png', grid: { width: 46, height: 56, count: 5 }, duration: 150 },
+    pig_idle: { image: './img/Sprites/03-Pig/Idle (34x28).png', grid: { width: 34, height: 28, count: 11 }, pivot: PIG_PIVOT, facing: 'left' },
+    pig_run: { image: './img/Sprites/03-Pig/Run (34x28).png', grid: { width: 34, height: 28, count: 6 }, pivot: PIG_PIVOT, facing: 'left' },
+    pig_attack: { image: './img/Sprites/03-Pig/Attack (34x28).png', grid: { width: 34, height: 28, count: 5 }, pivot: PIG_PIVOT, facing: 'left', duration: 100 },
+    pig_hit: { image: './img/Sprites/03-Pig/Hit (34x28).png', grid: { width: 34, height: 28, count: 2 }, pivot: PIG_PIVOT, facing: 'left', duration: 150 },
+    pig_dead: { image: './img/Sprites/03-Pig/Dead (34x28).png', grid: { width: 34, height: 28, count: 4 }, pivot: PIG_PIVOT, facing: 'left', duration: 150 },
+    king_pig_idle: { image: './img/Sprites/02-King Pig/Idle (38x28).png', grid: { width: 38, height: 28, count: 12 }, pivot: PIG_PIVOT, facing: 'left' },
+    king_pig_run: { image: './img/Sprites/02-King Pig/Run (38x28).png', grid: { width: 38, height: 28, count: 6 }, pivot: PIG_PIVOT, facing: 'left' },
+    king_pig_attack: { image: './img/Sprites/02-King Pig/Attack (38x28).png', grid: { width: 38, height: 28, count: 5 }, pivot: PIG_PIVOT, facing: 'left', duration: 100 },
+    king_pig_hit: { image: './img/Sprites/02-King Pig/Hit (38x28).png', grid: { width: 38, height: 28, count: 2 }, pivot: PIG_PIVOT, facing: 'left', duration: 150 },
+    king_pig_dead: { image: './img/Sprites/02-King Pig/Dead (38x28).png', grid: { width: 38, height: 28, count: 4 }, pivot: PIG_PIVOT, facing: 'left', duration: 150 },
+    diamond_idle: { image: './img/Sprites/12-Live and Coins/Big Diamond Idle (18x14).png', grid: { width: 18, height: 14, count: 10 }, pivot: ITEM_PIVOT },
+    diamond_hit: { image: './img/Sprites/12-Live and Coins/Big Diamond Hit (18x14).png', grid: { width: 18, height: 14, count: 2 }, pivot: ITEM_PIVOT, duration: 120 },
+    heart_pickup_idle: { image: './img/Sprites/12-Live and Coins/Big Heart Idle (18x14).png', grid: { width: 18, height: 14, count: 8 }, pivot: ITEM_PIVOT },
+    heart_pickup_hit: { image: './img/Sprites/12-Live and Coins/Big Heart Hit (18x14).png', grid: { width: 18, height: 14, count: 2 }, pivot: ITEM_PIVOT, duration: 120 },
+    box_pig_idle: { image: './img/Sprites/04-Pig Throwing a Box/Idle (26x30).png', grid: { width: 26, height: 30, count: 9 }, pivot: THROWER_PIVOT, facing: 'left' },
+    box_pig_run: { image: './img/Sprites/04-Pig Throwing a Box/Run (26x30).png', grid: { width: 26, height: 30, count: 6 }, pivot: THROWER_PIVOT, facing: 'left' },
+    box_pig_pick: { image: './img/Sprites/04-Pig Throwing a Box/Picking Box (26x30).png', grid: { width: 26, height: 30, count: 5 }, pivot: THROWER_PIVOT, facing: 'left', duration: 120 },
+    box_pig_throw: { image: './img/Sprites/04-Pig Throwing a Box/Throwing Box (26x30).png', grid: { width: 26, height: 30, count: 5 }, pivot: THROWER_PIVOT, facing: 'left', duration: 100 },
+    bomb_pig_idle: { image: './img/Sprites/05-Pig Thowing a Bomb/Idle (26x26).png', grid: { width: 26, height: 26, count: 10 }, pivot: { x: 14, y: 26 }, facing: 'left' },
+    bomb_pig_run: { image: './img/Sprites/05-Pig Thowing a Bomb/Run (26x26).png', grid: { width: 26, height: 26, count: 6 }, pivot: { x: 14, y: 26 }, facing: 'left' },
+    bomb_pig_pick: { image: './img/Sprites/05-Pig Thowing a Bomb/Picking Bomb (26x26).png', grid: { width: 26, height: 26, count: 4 }, pivot: { x: 14, y: 26 }, facing: 'left', duration: 120 },
+    bomb_pig_throw: { image: './img/Sprites/05-Pig Thowing a Bomb/Throwing Boom (26x26).png', grid: { width: 26, height: 26, count: 5 }, pivot: { x: 14, y: 26 }, facing: 'left', duration: 100 },
+    box_idle: { image: './img/Sprites/08-Box/Idle.png', grid: { width: 22, height: 16, count: 1 }, pivot: { x: 11, y: 8 } },
+    box_hit: { image: './img/Sprites/08-Box/Hit.png', grid: { width: 22, height: 16, count: 1 }, pivot: { x: 11, y: 8 }, duration: 120 },
+    box_piece_1: { image: './img/Sprites/08-Box/Box Pieces 1.png', grid: { width: 10, height: 10, count: 1 }, pivot: { x: 5, y: 5 } },
+    box_piece_2: { image: './img/Sprites/08-Box/Box Pieces 2.png', grid: { width: 10, height: 10, count: 1 }, pivot: { x: 5, y: 5 } },
+    box_piece_3: { image: './img/Sprites/08-Box/Box Pieces 3.png', grid: { width: 10, height: 10, count: 1 }, pivot: { x: 5, y: 5 } },
+    box_piece_4: { image: './img/Sprites/08-Box/Box Pieces 4.png', grid: { width: 10, height: 10, count: 1 }, pivot: { x: 5, y: 5 } },
+    bomb_off: { image: './img/Sprites/09-Bomb/Bomb Off.png', grid: { width: 52, height: 56, count: 1 }, pivot: BOMB_PIVOT },
+    bomb_on: { image: './img/Sprites/09-Bomb/Bomb On (52x56).png', grid: { width: 52, height: 56, count: 4 }, pivot: BOMB_PIVOT },
+    bomb_boom: { image: './img/Sprites/09-Bomb/Boooooom (52x56).png', grid: { width: 52, height: 56, count: 6 }, pivot: BOMB_PIVOT, duration: 80 },
+    cannon_idle: { image: './img/Sprites/10-Cannon/Idle.png', grid: { width: 44, height: 28, count: 1 }, pivot: CANNON_PIVOT, facing: 'left' },
+    cannon_shoot: { image: './img/Sprites/10-Cannon/Shoot (44x28).png', grid: { width: 44, height: 28, count: 4 }, pivot: CANNON_PIVOT, facing: 'left', duration: 100 },
+    cannon_ball: { image: './img/Sprites/10-Cannon/Cannon Ball.png', grid: { width: 44, height: 28, count: 1 }, pivot: { x: 29, y: 19 } },
+    ...bubbleAtlases()
+  };
+  const DEFAULT_FRAME_DURATION = 90; // ms
+
+
+  /**
+   * HeadlessAssets hands out sprite sheets without any images.
+   * Animations still run (frames and durations come from the
+   * atlases), there is just nothing to draw.
+   * Used to run the simulation outside the browser.
+   */
+  class HeadlessAssets implements AssetSource {
+    atlases: {[id: string]: SpriteAtlas};
+    sheets: {[id: string]: SpriteSheet};
+
+    constructor(){
+      this.atlases = { ...SPRITE_ATLASES };
+      this.sheets = {};
+    }
+
+    addAtlas(id: string, atlas: SpriteAtlas){
+      this.atlases[id] = atlas;
+      delete this.sheets[id];
+    }
+
+    async loadAtlas(id: string, url: string){
+      /**
+       * Fetch an atlas description (JSON). The image path
+       * inside it is relative to the page, like in SPRITE_ATLASES.
+       */
+      let response = await fetch(url);
+      if(!response.ok){
+        throw new Error(`Could not load ${url} (${response.status})`);
+      }
+      this.addAtlas(id, await response.json());
+    }
+
+    sheet(id: string): SpriteSheet {
+      /**
+       * The same object is returned for the same id,
+       * so sheets can be compared to know what is playing.
+       */
+      if(!this.sheets[id]){
+        let atlas = this.atlases[id];
+        if(!atlas){
+          throw new Error(`Unknown sprite sheet "${id}"`);
+        }
+        this.sheets[id] = this.buildSheet(id, atlas);
+      }
+      return this.sheets[id];
+    }
+
+    buildSheet(id: string, atlas: SpriteAtlas): SpriteSheet {
+      /**
+       * Fill in every frame with the atlas defaults
+       * and check the clips only use existing frames.
+       */
+      let frames = (atlas.frames || this.gridFrames(atlas.grid)).map((frame, i) => ({
+        x: frame.x,
+        y: frame.y,
+        w: frame.w,
+        h: frame.h,
+        duration: frame.duration || (atlas.durations && atlas.durations[i]) || atlas.duration || DEFAULT_FRAME_DURATION,
+        pivot: frame.pivot || atlas.pivot || { x: 0, y: 0 }
+      }));
+      if(!frames.length){
+        throw new Error(`Sprite sheet "${id}" has no frames`);
+      }
+      let clips = atlas.clips || {};
+      for(let name in clips){
+        if(!clips[name].length || clips[name].some(i => !frames[i])){
+          throw new Error(`Clip "${name}" of sprite sheet "${id}" uses frames that don't exist`);
+        }
+      }
+      return {
+        id,
+        image: this.sheetImage(atlas),
+        frames,
+        clips,
+        facing: atlas.facing || 'right'
+      };
+    }
+
+    gridFrames(grid: AtlasGrid): Array<AtlasFrame> {
+      /**
+       * Frames of the same size laid out left to right,
+       * then top to bottom.
+       */
+      if(!grid) return [];
+      let columns = grid.columns || grid.count;
+      let frames: Array<AtlasFrame> = [];
+      for(let i = 0; i < grid.count; i++){
+        frames.push({
+          x: (i % columns) * grid.width,
+          y: Math.floor(i / columns) * grid.height,
+          w: grid.width,
+          h: grid.height
+        });
+      }
+      return frames;
+    }
+
+    sheetImage(atlas: SpriteAtlas): HTMLImageElement {
+      return null;
+    }
+
+    image(src: string): HTMLImageElement {
+      return null;
+    }
+  }
+
+
+  /**
+   * DomAssets loads the images for the sprite sheets.
+   * Sheets sharing an image share the same element.
+   */
+  class DomAssets extends HeadlessAssets {
+    sheetImages: {[src: string]: HTMLImageElement};
+
+    constructor(){
+      super();
+      this.sheetImages = {};
+      // Start loading every image now rather than when first drawn
+      for(let id in this.atlases){
+        this.sheet(id);
+      }
+    }
+
+    sheetImage(atlas: SpriteAtlas): HTMLImageElement {
+      if(!this.sheetImages[atlas.image]){
+        this.sheetImages[atlas.image] = this.image(atlas.image);
+      }
+      return this.sheetImages[atlas.image];
+    }
+
+    image(src: string): HTMLImageElement {
+      let image = new Image();
+      image.src = src;
+      return image;
     }
   }
 
 
   /**
-   * ActorSprite manages a charater's srite sheet
-   * animation and swapping.
-   * Draw method should be implemented in the Parent class
-   * due to custom configurations needed for Parent class.
+   * ActorSprite plays a sprite sheet: it keeps track of the current
+   * frame of the current clip and draws it. Where it is drawn is up
+   * to the Parent class, which knows where its pivot should go.
    */
   class ActorSprite {
     pos: Vector2D;
-    image: HTMLImageElement;
-    w: number;
-    h: number;
-    currentFrame: number;
-    maxFrame: number;
-    animationTimer: number;
+    sheet: SpriteSheet;
+    clip: Array<number>; // indexes into sheet.frames
+    ratio: Vector2D;     // canvas to map pixels, see GameEngine.ratio
+    currentFrame: number; // index into clip
     animationCounter: number;
     scale: number;
+    flip: boolean;       // mirror horizontally around the pivot
+    loop: boolean;
+    finished: boolean;
 
-    constructor(pos: Vector2D, img: HTMLImageElement, scale: number = 1){
+    constructor(pos: Vector2D, sheet: SpriteSheet, scale: number = 1, ratio: Vector2D = new Vector2D(1, 1)){
       this.pos = pos;
       this.scale = scale;
+      this.ratio = ratio;
+      this.flip = false;
       this.currentFrame = 0;
-      this.animationTimer = 90;
       this.animationCounter = 0;
-      this.maxFrame = Number(img.getAttribute('maxFrames'));    
-      this.image = img;
-      this.updateDimensions();
-      this.updateAnimationDuration(this.image);
+      this.swapSprite(sheet);
     }
 
-    updateDimensions() {
-      /**
-       * Update the dimensions of the sprite considering the
-       * new image and the xRatio to make it responsive.
-       * w and h are used to draw the player sprite image correctly inside the 
-       * player's hitbox.
-       */
-      // Width of 1 frame is the whole img / # of frames.
-      this.w = (this.image.width / this.maxFrame) * GAME.xRatio * this.scale;
+    get maxFrame(): number {
+      return this.clip.length;
+    }
+
+    get frame(): SpriteFrame {
+      return this.sheet.frames[this.clip[this.currentFrame]];
+    }
+
+    get animationTimer(): number {
+      return this.frame.duration;
+    }
+
+    get w(): number {
       /**
-       * Height is taken from the image and only scaled by the game's yRatio.
-       * It is assumed sprite sheets only contain 1 row.
+       * Size of the current frame on the canvas, scaled
+       * by the game's ratios to make it responsive.
        */
-      this.h = this.image.height * GAME.yRatio * this.scale;
+      return this.frame.w * this.ratio.x * this.scale;
     }
 
-    updateAnimationDuration(img: HTMLImageElement){
-      let duration = img.getAttribute('duration');
-      if(duration){
-        this.animationTimer = Number(duration);
-      }
+    get h(): number {
+      return this.frame.h * this.ratio.y * this.scale;
     }
 
-    swapSprite(img: HTMLImageElement){ 
+    swapSprite(sheet: SpriteSheet, clip?: string){ 
       /**
-       * Swap the current Image element with the new reference provided.
-       * img (args) should be already loaded. 
+       * Swap the current sprite sheet with the new reference provided,
+       * playing the named clip or every frame of the sheet.
        */    
-      this.image = img;
-      this.maxFrame = Number(this.image.getAttribute('maxFrames'));
-      this.updateAnimationDuration(img);
+      if(clip && !sheet.clips[clip]){
+        throw new Error(`Sprite sheet "${sheet.id}" has no clip "${clip}"`);
+      }
+      this.sheet = sheet;
+      this.clip = clip ? sheet.clips[clip] : sheet.frames.map((_, i) => i);
+      if(this.currentFrame >= this.clip.length){
+        this.currentFrame = 0;
+      }
+      this.loop = true;
+      this.finished = false;
+    }
+
+    playOnce(sheet: SpriteSheet, clip?: string){
+      /**
+       * Swap to a one-shot animation. It starts from the first frame
+       * and stays on the last one, setting finished when done.
+       */
+      this.swapSprite(sheet, clip);
+      this.loop = false;
+      this.currentFrame = 0;
+      this.animationCounter = 0;
     }
 
-    cropbox() {
+    bounds(x: number, y: number): Box {
       /**
-       * Build cropbox used in draw method of Parent class.
-       * This crop box will return dimensions and a point to 
-       * crop the sprite sheet. Used in ctx.drawImage 9-args version.
+       * The area the current frame covers when drawn at x, y.
        */
-      let frameWidth = (this.image.width / this.maxFrame);
+      let frame = this.frame;
+      let pivotX = frame.pivot.x * this.ratio.x * this.scale;
+      let pivotY = frame.pivot.y * this.ratio.y * this.scale;
       return {
-        position: {
-          x: this.currentFrame * frameWidth,
-          y: 0 // y is always 0 as we assume sprite sheets ar 1 row only
-        },
+        x: this.flip ? x + pivotX - this.w : x - pivotX,
+        y: y - pivotY,
         w: this.w,
-        h: this.h 
+        h: this.h
+      };
+    }
+
+    draw(ctx: CanvasRenderingContext2D, x: number, y: number){
+      /**
+       * Draw the current frame with its pivot on x, y.
+       */
+      if(!this.sheet.image) return;
+      let frame = this.frame;
+      let scaleX = this.ratio.x * this.scale;
+      let scaleY = this.ratio.y * this.scale;
+      ctx.save();
+      ctx.translate(x, y);
+      if(this.flip){
+        ctx.scale(-1, 1);
       }
+      ctx.drawImage(this.sheet.image,
+        // Crop the frame from the sheet
+        frame.x,
+        frame.y,
+        frame.w,
+        frame.h,
+        // and draw it around the pivot
+        -frame.pivot.x * scaleX,
+        -frame.pivot.y * scaleY,
+        this.w,
+        this.h
+      );
+      ctx.restore();
     }
 
     animate(deltaTime: number){
@@ -348,7 +802,11 @@
        * by subtracting 1 from the maxFrame condition
        */
       if(this.currentFrame >= this.maxFrame - 1) {
-        this.currentFrame = 0;
+        if(this.loop){
+          this.currentFrame = 0;
+        } else {
+          this.finished = true;
+        }
       } else {
         this.currentFrame += 1;
         /**
@@ -360,6 +818,118 @@
   }
 
 
+  /**
+   * An Animator is a state machine on top of an ActorSprite.
+   * The states and how they can change come from an AnimationSetup,
+   * so owners only ask for a state with play() and react to
+   * animation events with on().
+   * Events: 'end' when a one-shot clip finishes, plus whatever
+   * names the clips fire on given frames. Callbacks get the state.
+   */
+  class Animator {
+    assets: AssetSource;
+    setup: AnimationSetup;
+    sprite: ActorSprite;
+    state: string;
+    direction: string; // sprites are flipped when the sheet faces the other way
+    listeners: {[event: string]: Array<(state: string) => void>};
+    audio: AudioManager; // plays the clips' sounds, none without it
+
+    constructor(assets: AssetSource, setup: AnimationSetup, pos: Vector2D, scale: number = 1, ratio: Vector2D = new Vector2D(1, 1), audio: AudioManager = null){
+      this.assets = assets;
+      this.setup = setup;
+      this.audio = audio;
+      this.direction = 'right';
+      this.listeners = {};
+      this.state = setup.initial;
+      this.sprite = new ActorSprite(pos, this.assets.sheet(this.clip.sheet), scale, ratio);
+      this.enter(this.state);
+    }
+
+    get clip(): AnimationClip {
+      return this.setup.states[this.state];
+    }
+
+    on(event: string, callback: (state: string) => void){
+      (this.listeners[event] = this.listeners[event] || []).push(callback);
+    }
+
+    emit(event: string){
+      for(let callback of this.listeners[event] || []){
+        callback(this.state);
+      }
+    }
+
+    canPlay(state: string): boolean {
+      /**
+       * A clip that hasn't finished can only be interrupted by
+       * the states in its transitions (any state if it has none).
+       */
+      let clip = this.clip;
+      if(clip.loop || this.sprite.finished || !clip.transitions) return true;
+      return clip.transitions.includes(state);
+    }
+
+    play(state: string, force: boolean = false): boolean {
+      /**
+       * Change to the given state. Returns false if the current
+       * clip doesn't allow it, force skips that check.
+       * Asking for the looping state already playing does nothing,
+       * a one-shot one is started again.
+       */
+      if(!this.setup.states[state]){
+        throw new Error(`Unknown animation state "${state}"`);
+      }
+      if(state === this.state && this.clip.loop) return true;
+      if(!force && !this.canPlay(state)) return false;
+      this.enter(state);
+      return true;
+    }
+
+    enter(state: string){
+      this.state = state;
+      let clip = this.clip;
+      this.sprite.playOnce(this.assets.sheet(clip.sheet), clip.clip);
+      this.sprite.loop = clip.loop;
+      this.face(this.direction);
+      this.frameReached(0);
+    }
+
+    face(direction: string){
+      this.direction = direction;
+      this.sprite.flip = direction !== this.sprite.sheet.facing;
+    }
+
+    frameReached(frame: number){
+      let events = this.clip.events;
+      if(events && events[frame]){
+        this.emit(events[frame]);
+      }
+      let sounds = this.clip.sounds;
+      if(this.audio && sounds && sounds[frame]){
+        this.audio.play(sounds[frame]);
+      }
+    }
+
+    update(deltaTime: number){
+      let frame = this.sprite.currentFrame;
+      let finished = this.sprite.finished;
+      this.sprite.animate(deltaTime);
+      if(this.sprite.currentFrame !== frame){
+        this.frameReached(this.sprite.currentFrame);
+      }
+      if(this.sprite.finished && !finished){
+        let state = this.state;
+        this.emit('end');
+        // Only follow on if no callback already changed the state
+        if(this.clip.next && this.state === state){
+          this.enter(this.clip.next);
+        }
+      }
+    }
+  }
+
+
   /**
    * Interfaces for some
    */
@@ -374,87 +944,736 @@
     width: number // assuming squares only
   }
   interface MapSpriteOptions {
+    image: HTMLImageElement // null when running headless
     imageSetup: ImageSetup
     tiles: TilesSetup
   }
+  interface AtlasPoint {
+    x: number
+    y: number
+  }
+  interface AtlasFrame {
+    x: number          // rectangle of the frame in the image, in pixels
+    y: number
+    w: number
+    h: number
+    duration?: number  // ms
+    pivot?: AtlasPoint // point of the frame placed on the actor's anchor
+  }
+  interface AtlasGrid {
+    width: number      // of one frame
+    height: number
+    count: number
+    columns?: number   // frames per row, all of them in one row if not set
+  }
+  /**
+   * Description of a sprite sheet, plain JSON so it can be kept in a file.
+   * Frames are either listed one by one or cut from a grid.
+   * Values on a frame win over the atlas wide defaults.
+   * clips   - named lists of frame indexes, e.g. { "blink": [0, 1, 0] }
+   * facing  - which way the drawings face, sprites are flipped
+   *           to face the other way
+   */
+  interface SpriteAtlas {
+    image: string
+    frames?: Array<AtlasFrame>
+    grid?: AtlasGrid
+    duration?: number           // ms per frame, DEFAULT_FRAME_DURATION if not set
+    durations?: Array<number>   // ms per frame by index, for grids
+    pivot?: AtlasPoint          // top left corner if not set
+    facing?: 'left' | 'right'   // right if not set
+    clips?: {[name: string]: Array<number>}
+  }
+  interface SpriteFrame {
+    x: number
+    y: number
+    w: number
+    h: number
+    duration: number
+    pivot: AtlasPoint
+  }
+  /**
+   * An atlas ready to be played (see HeadlessAssets.buildSheet).
+   */
+  interface SpriteSheet {
+    id: string
+    image: HTMLImageElement // null when running headless
+    frames: Array<SpriteFrame>
+    clips: {[name: string]: Array<number>}
+    facing: string
+  }
+  /**
+   * Where sprite sheets and images come from (see DomAssets
+   * and HeadlessAssets).
+   */
+  interface AssetSource {
+    sheet(id: string): SpriteSheet
+    image(src: string): HTMLImageElement
+  }
+  /**
+   * Anything with the canvas dimensions. The simulation only
+   * needs the size, so a plain object works when running headless.
+   */
+  interface CanvasSize {
+    width: number
+    height: number
+  }
   interface PlayerOptions {
     game?: GameEngine
     width: number
     height: number
-    jumpFactor: number
-    speedFactor: number
+    jumpFactor: number  // px per second
+    speedFactor: number // px per second
   }
-  interface PlayerUpdateOptions {
+  interface ActorUpdateOptions {
     gravity: Vector2D
-    collisionBlocks: Array<CollisionBlock>
+    solids: SpatialGrid<CollisionBlock>
+    dt: number // seconds
   }
-  interface ActorSpriteOptions {
+  interface Box {
+    x: number
+    y: number
+    w: number
+    h: number
+  }
+  /**
+   * Anything actors can't walk through.
+   */
+  interface Solid {
     pos: Vector2D
-    src: string
-    maxFrame: number
-    animationTimer: number
+    w: number
+    h: number
   }
-
-
-
-  class Player{
-    game: GameEngine;
-    jumpFactor: number;
-    speedFactor: number;
-    pos: Vector2D;
-    vel: Vector2D;
-    width: number;
-    height: number;
-    sprite: ActorSprite
-    direction: string;
-    player_images: any // FIXME no anys!
-    lives: number;
-
-    constructor(args: PlayerOptions) {
-      this.lives = 3;
-      this.width = args.width;
-      this.height = args.height;    
-      this.pos = new Vector2D(0,0);
-      this.vel = new Vector2D(0,0);
-      this.jumpFactor = args.jumpFactor;
-      this.speedFactor = args.speedFactor;
-      this.game = args.game;
-      this.direction = 'right';
-      this.player_images = {
-        idle_right: document.getElementById('player_idle_right') as HTMLImageElement, // [ ] refactor repeating remove type 
-        idle_left: document.getElementById('player_idle_left') as HTMLImageElement, // [ ] refactor repeating remove type 
-        runLeft: document.getElementById('player_runleft') as HTMLImageElement,
-        runRight: document.getElementById('player_runright') as HTMLImageElement,
-        enterDoor: document.getElementById('player_enterdoor') as HTMLImageElement,
-        attack: document.getElementById('player_attack') as HTMLImageElement
-      }
-      this.sprite = new ActorSprite(this.pos, this.player_images.idle_right);
+  /**
+   * Every kind of entity the EntityWorld holds, by kind name.
+   * Lookups go through the kind, never the class name
+   * (minifiers rename classes).
+   */
+  interface EntityKinds {
+    solid: CollisionBlock
+    spawn: SpawnPlace
+    door: Door
+    enemy: Enemy
+    player: Player
+    cannon: Cannon
+    crate: Crate
+    projectile: Projectile
+    explosion: Explosion
+    debris: Debris
+    collectible: Collectible
+    trigger: DialogueTrigger
+    bubble: SpeechBubble
+  }
+  type EntityKind = keyof EntityKinds;
+  type AnyEntity = EntityKinds[EntityKind];
+  /**
+   * solids - collision geometry, also kept in a SpatialGrid
+   * props  - level objects that don't move
+   * actors - the player and enemies
+   */
+  type EntityCollection = 'solids' | 'props' | 'actors';
+  interface EntityKindSetup {
+    collection: EntityCollection
+    debugOnly: boolean // only drawn in debug mode
+  }
+  /**
+   * The hooks are optional; the EntityWorld calls the ones an entity has.
+   * onSpawn   - right after it is added
+   * onUpdate  - once per simulation step
+   * draw      - every frame, alpha is how far into the next step we are
+   * onDestroy - right after it is removed
+   */
+  interface Entity {
+    kind: EntityKind
+    onSpawn?(world: EntityWorld): void
+    onUpdate?(stepTime: number): void
+    draw?(ctx: CanvasRenderingContext2D, alpha: number): void
+    onDestroy?(world: EntityWorld): void
+  }
+  interface AttackSetup {
+    frames: Array<number> // frames of the attack animation that can hit
+    reach: number         // px in front of the attacker's centre
+    damage: number
+    knockback: Vector2D   // px per second, x is pushed away from the attacker
+  }
+  /**
+   * Where damage comes from, knockback pushes away from its centre.
+   */
+  interface DamageSource {
+    pos: Vector2D
+    width: number
+    height: number
+  }
+  /**
+   * Anything that can be hurt by an attack.
+   */
+  interface Damageable {
+    health: number
+    maxHealth: number
+    invulnerableTimer: number // ms left, no damage is taken meanwhile
+    takeDamage(amount: number, source: DamageSource, knockback: Vector2D): boolean
+  }
+  interface ExplosionSetup {
+    radius: number    // map px from the centre
+    damage: number
+    knockback: number // px per second at the centre, half of it at the edge
+    sheet: string     // played once, SPRITE_ATLASES id
+  }
+  /**
+   * break   - disappears, leaving its debris
+   * explode - explodes right away
+   * stay    - bounces off, it is up to the fuse to end it
+   */
+  type ProjectileImpact = 'break' | 'explode' | 'stay';
+  interface ProjectileSetup {
+    width: number
+    height: number
+    scale: number      // sprite sheets are drawn at this scale
+    gravity: number    // share of GameEngine.gravity it falls with
+    damage: number     // to the player on a direct hit, 0 to fly through it
+    knockback: Vector2D
+    impact: ProjectileImpact // on hitting a solid or the player
+    bounce: number     // share of the speed kept when bouncing
+    fuse: number       // ms before it explodes by itself, 0 for never
+    explosion?: ExplosionSetup
+    debris?: Array<string> // sheets of the pieces it breaks into
+    animations: AnimationSetup // 'fly'
+  }
+  interface ThrowSetup {
+    projectile: string // PROJECTILE_TYPES key
+    range: number      // map px, throws at the player within this distance
+    speed: number      // px per second, sideways
+    cooldown: number   // ms between throws
+  }
+  interface CannonSetup {
+    width: number
+    height: number
+    scale: number
+    projectile: string // PROJECTILE_TYPES key
+    speed: number      // px per second
+    range: number      // map px it can see the player from
+    cooldown: number   // ms between shots when firing at the player
+  }
+  interface CrateSetup {
+    width: number
+    height: number
+    scale: number
+    health: number
+    pushSpeed: number     // px per second while the player pushes it
+    debris: Array<string> // SPRITE_ATLASES ids of the pieces it breaks into
+    animations: AnimationSetup
+  }
+  /**
+   * One state of an Animator.
+   * next        - state to change to when a one-shot clip finishes
+   * transitions - states that may interrupt the clip before it finishes
+   *               (any state if left out)
+   * events      - event names fired when the clip reaches a frame
+   * sounds      - SOUND_EFFECTS ids played when the clip reaches a frame
+   */
+  interface AnimationClip {
+    sheet: string  // SPRITE_ATLASES id
+    clip?: string  // named clip of the sheet, the whole sheet if not set
+    loop: boolean
+    next?: string
+    transitions?: Array<string>
+    events?: {[frame: number]: string}
+    sounds?: {[frame: number]: string}
+  }
+  interface AnimationSetup {
+    initial: string
+    states: {[state: string]: AnimationClip}
+  }
+  interface EnemySetup {
+    width: number
+    height: number
+    scale: number        // sprite sheets are drawn at this scale
+    patrolSpeed: number  // px per second
+    chaseSpeed: number   // px per second
+    sightRange: number   // px, player is noticed within this distance
+    attackRange: number  // px, enemy stops and attacks within this distance
+    attackCooldown: number // ms between attacks
+    attack?: AttackSetup   // melee, enemies without one never attack up close
+    throw?: ThrowSetup     // throwers throw at the player from afar
+    health: number
+    invulnerableTime: number // ms
+    animations: AnimationSetup
+    boss?: string // name on the boss health bar, only bosses have one
+  }
+  interface CollectibleSetup {
+    width: number
+    height: number
+    scale: number  // sprite sheets are drawn at this scale
+    score: number  // points for picking it up
+    lives: number  // lives given back, never above the player's maximum
+    animations: AnimationSetup // 'idle' until picked up, then 'collected'
+  }
+  /**
+   * Collectibles of the current level.
+   * score - points the collectibles gave, multiplied when all are collected
+   */
+  interface CollectibleCount {
+    total: number
+    collected: number
+    score: number
+  }
+  /**
+   * One line of a conversation.
+   * speaker - 'player' or an ENEMY_TYPES key, the nearest enemy
+   *           of that type says the line
+   * bubble  - SPEECH_BUBBLES name shown above the speaker meanwhile
+   */
+  interface DialogueLine {
+    speaker: string
+    text: string
+    bubble?: string
+  }
+  interface ActorSpriteOptions {
+    pos: Vector2D
+    src: string
+    maxFrame: number
+    animationTimer: number
+  }
+  interface LevelSource {
+    map: string        // path to the Tiled .tmx file
+    background: string // path to the pre-rendered background image
+    music?: string     // MUSIC_TRACKS id
+  }
+  interface TilesetRef {
+    firstgid: number
+    name: string
+    tileCount: number
+    source?: string // .tsx path relative to the map, for external tilesets
+  }
+  interface TileLayer {
+    name: string
+    width: number
+    height: number
+    data: Array<Array<number>> // rows of gids, 0 means empty
+  }
+  interface MapObject {
+    id: number
+    name: string
+    type: string // Tiled class, e.g. "Pig"
+    gid: number
+    x: number
+    y: number
+    width: number
+    height: number
+    properties?: {[name: string]: string} // Tiled custom properties
+  }
+  interface ObjectLayer {
+    name: string
+    objects: Array<MapObject>
+  }
+  interface LevelData {
+    width: number      // in tiles
+    height: number     // in tiles
+    tileWidth: number  // in pixels
+    tileHeight: number // in pixels
+    tilesets: Array<TilesetRef>
+    layers: Array<TileLayer>
+    objectGroups: Array<ObjectLayer>
+    background: string
+  }
+  interface TileFlag {
+    tileset: string // tileset name as saved in the .tsx
+    id: number      // local tile id inside that tileset
+  }
+  interface SlopeSetup {
+    left: number  // floor height on the left side, 0 to 1 of the tile
+    right: number // floor height on the right side
+  }
+
+
+
+  const FLASH_INTERVAL = 100; // ms between blinks while invulnerable
+  const KNOCKBACK_TIME = 250; // ms an actor can't control its movement after a hit
+  const GROUND_SNAP = 2;           // px a grounded actor is pulled down to stay on the floor
+  const STEP_HEIGHT = 8;           // px a grounded actor walks up without being stopped
+  const PLATFORM_TOLERANCE = 0.5;  // px an actor can be below a platform's top and still land on it
+  const PLATFORM_DROP_TIME = 200;  // ms platforms are ignored after dropping down through one
+  const PLAYER_ATTACK: AttackSetup = {
+    frames: [1],
+    reach: 40,
+    damage: 1,
+    knockback: new Vector2D(250, 400)
+  };
+
+  const PLAYER_ANIMATIONS: AnimationSetup = {
+    initial: 'idle',
+    states: {
+      idle: { sheet: 'king_idle', loop: true },
+      run: { sheet: 'king_run', loop: true, sounds: { 1: 'step', 5: 'step' } },
+      jump: { sheet: 'king_jump', loop: true, sounds: { 0: 'jump' } },
+      fall: { sheet: 'king_fall', loop: true },
+      ground: { sheet: 'king_ground', loop: false, next: 'idle', sounds: { 0: 'land' } },
+      attack: { sheet: 'king_attack', loop: false, transitions: ['dead', 'enterDoor'], sounds: { 0: 'swing' } },
+      enterDoor: { sheet: 'king_door_in', loop: false, transitions: [] },
+      dead: { sheet: 'king_dead', loop: false, transitions: [], sounds: { 0: 'death' } }
+    }
+  };
+  const PLAYER_SPRITE_SCALE = 2;
+
+  function overlaps(a: Box, b: Box): boolean {
+    return a.x <= b.x + b.w && a.x + a.w >= b.x &&
+      a.y <= b.y + b.h && a.y + a.h >= b.y;
+  }
+
+
+  /**
+   * An Actor is anything that moves around the level on its own:
+   * it is pulled by gravity and stopped by CollisionBlocks.
+   * Actors can attack and be attacked (see Damageable).
+   * Sub classes set the sprite and implement draw().
+   */
+  class Actor implements Damageable {
+    game: GameEngine;
+    pos: Vector2D;
+    prevPos: Vector2D;
+    vel: Vector2D;
+    width: number;
+    height: number;
+    animator: Animator;
+    sprite: ActorSprite;
+    direction: string;
+    grounded: boolean;     // standing on something after the last update
+    ground: CollisionBlock; // what it is standing on
+    wall: string;          // 'left' or 'right' when it walked into a wall on the last update, else null
+    wallBlock: CollisionBlock; // the wall it walked into
+    ceiling: CollisionBlock; // what it bumped its head on in the last update
+    dropTimer: number;     // ms left ignoring one-way platforms
+    health: number;
+    maxHealth: number;
+    invulnerableTime: number;  // ms of invulnerability after being hit
+    invulnerableTimer: number;
+    knockbackTimer: number;
+    attackSetup: AttackSetup;
+    attacking: boolean;
+    attackHits: Array<Actor>;  // already hit by the current attack
+
+    constructor(game: GameEngine, width: number, height: number){
+      this.game = game;
+      this.width = width;
+      this.height = height;
+      this.pos = new Vector2D(0,0);
+      this.prevPos = new Vector2D(0,0);
+      this.vel = new Vector2D(0,0);
+      this.direction = 'right';
+      this.grounded = false;
+      this.ground = null;
+      this.wall = null;
+      this.wallBlock = null;
+      this.ceiling = null;
+      this.dropTimer = 0;
+      this.health = 1;
+      this.maxHealth = 1;
+      this.invulnerableTime = 0;
+      this.invulnerableTimer = 0;
+      this.knockbackTimer = 0;
+      this.attacking = false;
+      this.attackHits = [];
+    }
+
+    get alive(): boolean {
+      return this.health > 0;
+    }
+
+    initAnimator(setup: AnimationSetup, scale: number = 1){
+      this.animator = new Animator(this.game.assets, setup, this.pos, scale, this.game.ratio, this.game.audio);
+      this.animator.face(this.direction);
+      this.sprite = this.animator.sprite;
+      this.animator.on('end', state => this.animationEnded(state));
+    }
+
+    face(direction: string){
+      this.direction = direction;
+      this.animator.face(direction);
+    }
+
+    animationEnded(state: string){
+      if(state === 'attack' && this.attacking){
+        this.attacking = false;
+        this.attackEnded();
+      }
+    }
+
+    get flashing(): boolean {
+      /**
+       * Blink on and off while invulnerable.
+       */
+      return this.invulnerableTimer > 0 &&
+        Math.floor(this.invulnerableTimer / FLASH_INTERVAL) % 2 === 0;
+    }
+
+    hitbox(): Box {
+      return { x: this.pos.x, y: this.pos.y, w: this.width, h: this.height };
+    }
+
+    attackBox(): Box {
+      /**
+       * The area the current attack can hit, or null
+       * if the attack animation isn't on a hitting frame.
+       */
+      if(!this.attacking || !this.attackSetup) return null;
+      if(!this.attackSetup.frames.includes(this.sprite.currentFrame)) return null;
+      let w = this.width / 2 + this.attackSetup.reach * this.game.xRatio;
+      let x = this.direction === 'right' ? this.pos.x + this.width / 2 : this.pos.x + this.width / 2 - w;
+      return { x, y: this.pos.y, w, h: this.height };
+    }
+
+    startAttack(){
+      this.attacking = true;
+      this.attackHits = [];
+    }
+
+    attackEnded(){
+      // Sub classes pick the animation to go back to.
+    }
+
+    hurt(){
+      // Sub classes react to damage (animation, death, ...).
+    }
+
+    takeDamage(amount: number, source: DamageSource, knockback: Vector2D): boolean {
+      /**
+       * Returns false if the damage was ignored
+       * (already dead or still invulnerable).
+       */
+      if(!this.alive || this.invulnerableTimer > 0) return false;
+      this.health = Math.max(0, this.health - amount);
+      this.attacking = false;
+      this.hurt();
+      // Push away from the attacker
+      let away = this.pos.x + this.width / 2 < source.pos.x + source.width / 2 ? -1 : 1;
+      this.vel = new Vector2D(away * knockback.x, -knockback.y);
+      this.knockbackTimer = KNOCKBACK_TIME;
+      this.invulnerableTimer = this.invulnerableTime;
+      return true;
+    }
+
+    updateTimers(stepTime: number){
+      this.invulnerableTimer = Math.max(0, this.invulnerableTimer - stepTime);
+      this.dropTimer = Math.max(0, this.dropTimer - stepTime);
+      if(this.knockbackTimer > 0){
+        this.knockbackTimer = Math.max(0, this.knockbackTimer - stepTime);
+        if(this.knockbackTimer === 0) this.vel.x = 0;
+      }
+    }
+
+    drawAttackBox(ctx: CanvasRenderingContext2D){
+      /**
+       * [Debug mode]
+       * Red box while the attack can hit.
+       */
+      let box = this.attackBox();
+      if(!box) return;
+      ctx.save();
+      ctx.fillStyle = 'rgba(255, 0, 0, 0.4)';
+      ctx.fillRect(box.x, box.y, box.w, box.h);
+      ctx.restore();
+    }
+
+    renderPos(alpha: number): Vector2D {
+      /**
+       * Position between the last two physics steps.
+       * alpha - how far we are into the next step (0 to 1).
+       */
+      return this.prevPos.add(this.pos.subtract(this.prevPos).multiply(alpha));
+    }
+
+    advance(stepTime: number){
+      /**
+       * Timers, animation and movement for one simulation step.
+       */
+      this.updateTimers(stepTime);
+      this.animate(stepTime);
+      this.update({
+        gravity: this.game.gravity,
+        solids: this.game.world.solids,
+        dt: stepTime / ONE_SECOND
+      });
+    }
+
+    update(args: ActorUpdateOptions){
+      /**
+       * Update must be separated into X-Axis and Y-Axis to avoid errors.
+       * First we update position on X-axis and then check for collisions on this axis
+       * Then we update position on Y-axis and then check for collision on this axis
+       */  
+      // Keep last position to interpolate between steps when drawing
+      this.prevPos = new Vector2D(this.pos.x, this.pos.y);
+      // Move along X, stopping at walls
+      this.moveX(this.vel.x * args.dt, args.solids);
+      // Apply gravity - this will update the Y-vel with Gravity.
+      this.game.applyGravity(this, args.dt); 
+      // Move along Y, landing on floors and bumping into ceilings
+      this.moveY(this.vel.y * args.dt, args.solids);
+    }
+
+    get blockedX(): boolean {
+      return this.wall !== null;
+    }
+
+    moveX(dx: number, solids: SpatialGrid<CollisionBlock>){
+      /**
+       * The move is swept: every block between the old and the new
+       * position is checked, so fast actors can't pass through walls.
+       * The actor stops at the nearest one.
+       */
+      this.wall = null;
+      this.wallBlock = null;
+      if(dx === 0) return;
+      let sweep: Box = {
+        x: Math.min(this.pos.x, this.pos.x + dx),
+        y: this.pos.y,
+        w: this.width + Math.abs(dx),
+        h: this.height
+      };
+      let x = this.pos.x + dx;
+      for(let block of solids.query(sweep)){
+        if(!overlaps(sweep, block.box) || !block.blocksX(this, dx)) continue;
+        if(dx > 0 && block.pos.x - this.width - 0.01 <= x){
+          x = block.pos.x - this.width - 0.01;
+          this.wall = 'right';
+          this.wallBlock = block;
+        }
+        if(dx < 0 && block.pos.x + block.w + 0.01 >= x){
+          x = block.pos.x + block.w + 0.01;
+          this.wall = 'left';
+          this.wallBlock = block;
+        }
+      }
+      this.pos.x = x;
+    }
+
+    moveY(dy: number, solids: SpatialGrid<CollisionBlock>){
+      /**
+       * Swept like moveX. Falling actors land on the highest floor
+       * they cross; rising ones stop at the lowest ceiling.
+       * Actors that were on the ground are pulled down a little
+       * so they follow slopes going down instead of bouncing off them.
+       */
+      let oldY = this.pos.y;
+      let newY = oldY + dy;
+      let reach = this.grounded && dy >= 0 ? Math.abs(this.pos.x - this.prevPos.x) + GROUND_SNAP : 0;
+      let sweep: Box = {
+        x: this.pos.x,
+        y: Math.min(oldY, newY),
+        w: this.width,
+        h: this.height + Math.abs(dy) + reach
+      };
+      let floor: CollisionBlock = null;
+      let floorY = Infinity;
+      let ceiling: CollisionBlock = null;
+      let ceilingY = -Infinity;
+      for(let block of solids.query(sweep)){
+        if(!overlaps(sweep, block.box)) continue;
+        if(dy >= 0){
+          let top = block.topFor(this, oldY, newY, reach);
+          if(top !== null && top < floorY){
+            floorY = top;
+            floor = block;
+          }
+        } else {
+          let bottom = block.bottomFor(this, oldY, newY);
+          if(bottom !== null && bottom > ceilingY){
+            ceilingY = bottom;
+            ceiling = block;
+          }
+        }
+      }
+      this.grounded = floor !== null;
+      this.ground = floor;
+      this.ceiling = ceiling;
+      if(floor){
+        newY = floorY - this.height - 0.01;
+        this.vel.y = 0;
+      } else if(ceilingY > -Infinity){
+        newY = ceilingY + 0.01;
+        this.vel.y = 0;
+      }
+      this.pos.y = newY;
+    }
+
+    dropDown(){
+      /**
+       * Fall through the platform the actor is standing on.
+       */
+      if(!this.ground || !this.ground.canDropThrough()) return;
+      this.dropTimer = PLATFORM_DROP_TIME;
+      this.grounded = false;
+      this.ground = null;
+    }
+
+    stop() {
+      this.vel = this.vel.multiply(0);
+    }
+    
+    animate(deltaTime: number){
+      this.animator.update(deltaTime);
+    }
+  }
+
+
+  class Player extends Actor implements Entity {
+    readonly kind = 'player';
+    jumpFactor: number;
+    speedFactor: number;
+
+    constructor(args: PlayerOptions) {
+      super(args.game, args.width, args.height);
+      // Every hit costs one life
+      this.maxHealth = 3;
+      this.health = this.maxHealth;
+      this.invulnerableTime = 1000;
+      this.attackSetup = PLAYER_ATTACK;
+      this.jumpFactor = args.jumpFactor;
+      this.speedFactor = args.speedFactor;
+      this.initAnimator(PLAYER_ANIMATIONS, PLAYER_SPRITE_SCALE);
+    }
+
+    get lives(): number {
+      return this.health;
+    }
+
+    onUpdate(stepTime: number){
+      let wasGrounded = this.grounded;
+      this.advance(stepTime);
+      this.game.checkLevelBounds(this);
+      this.pushCrate();
+      // Dead and door clips stay on their last frame
+      if(['dead', 'enterDoor'].includes(this.animator.state)) return;
+      if(!this.grounded){
+        this.animator.play(this.vel.y < 0 ? 'jump' : 'fall');
+      } else if(!wasGrounded){
+        this.animator.play('ground');
+      }
+    }
+
+    pushCrate(){
+      /**
+       * Walking into a crate on the ground pushes it along.
+       * The crate moves on its next update, the player follows.
+       */
+      if(!this.wall || !this.grounded || this.vel.x === 0 || this.knockbackTimer > 0) return;
+      let crate = this.game.world.all('crate').find(crate => crate.block === this.wallBlock);
+      if(crate) crate.push(this.wall === 'right' ? 1 : -1);
     }
 
-    draw(ctx: CanvasRenderingContext2D) {    
+    draw(ctx: CanvasRenderingContext2D, alpha: number = 1) {    
       /**
        * Draw player sprite
        */
-      let cropbox = this.sprite.cropbox();    
-      let frameWidth = this.sprite.image.width / this.sprite.maxFrame;
+      let pos = this.renderPos(alpha);
+      // The sprite's pivot goes on the centre of the hitbox
+      let anchorX = pos.x + this.width / 2;
+      let anchorY = pos.y + this.height / 2;
       ctx.save();
-      // Align image with player's reference point
-      ctx.translate(  
-        -(this.sprite.w-this.width)/2, 
-        -(this.sprite.h-this.height)/2
-      );
-      ctx.drawImage(this.sprite.image, 
-        // Get the cropped image from the whole sprite sheet
-        cropbox.position.x, 
-        cropbox.position.y,
-        frameWidth,
-        this.sprite.image.height, // Doesn't need update as we assume sprite sheet is 1 row only
-        // Draw it on the screen  
-        this.pos.x, 
-        this.pos.y, 
-        this.sprite.w, 
-        this.sprite.h
-      );
+      if(this.flashing){
+        ctx.globalAlpha = 0.3;
+      }
+      this.sprite.draw(ctx, anchorX, anchorY);
       ctx.restore();
 
       /**
@@ -468,375 +1687,5021 @@
         ctx.beginPath();
         ctx.strokeStyle = 'blue';
         ctx.fillStyle = 'blue';
-        ctx.fillText('[Hitbox]', this.pos.x + 2, this.pos.y + this.height/2)
-        ctx.rect(this.pos.x, this.pos.y, this.width, this.height);
+        ctx.fillText('[Hitbox]', pos.x + 2, pos.y + this.height/2)
+        ctx.rect(pos.x, pos.y, this.width, this.height);
         ctx.stroke();
 
         /**
          * Draw player's point of reference (origin)
          */
         ctx.fillStyle = 'white';
-        ctx.fillText('[Ref.]', this.pos.x, this.pos.y - 10);
+        ctx.fillText('[Ref.]', pos.x, pos.y - 10);
         ctx.beginPath();
         ctx.strokeStyle = 'white';
-        ctx.arc(this.pos.x, this.pos.y, 5, 0, Math.PI * 2);
+        ctx.arc(pos.x, pos.y, 5, 0, Math.PI * 2);
         ctx.fill();
 
         /**
-         * Draw player's image box (cropbox from sprite sheet)
+         * Draw player's image box (current frame of the sprite sheet)
          */
+        let box = this.sprite.bounds(anchorX, anchorY);
         ctx.save();
         ctx.beginPath();
-        // Translater image box to be centered around 
-        // the player's hitbox evenly.
-        ctx.translate(  
-          -(this.sprite.w-this.width)/2, 
-          -(this.sprite.h-this.height)/2
-        );
         ctx.fillStyle = 'yellow';
-        ctx.fillText('[Cropbox]', this.pos.x, this.pos.y - 10)
+        ctx.fillText('[Cropbox]', box.x, box.y - 10)
         ctx.strokeStyle = 'yellow';
-        ctx.rect(this.pos.x, this.pos.y, 
-        this.sprite.w, this.sprite.h);
+        ctx.rect(box.x, box.y, box.w, box.h);
         ctx.stroke()
         ctx.restore()
+
+        this.drawAttackBox(ctx);
+      }
+    }
+
+    move(direction: string) {
+      // Can't steer while being knocked back
+      if(this.knockbackTimer > 0) return;
+      switch (direction) {
+        case 'left':
+          this.vel.x = -this.speedFactor;
+          this.face('left');
+          break;
+        case 'right':
+          this.vel.x = this.speedFactor;
+          this.face('right');
+          break;
+      }
+      // An attack in progress keeps playing (see PLAYER_ANIMATIONS)
+      this.run();
+    }
+
+    halt(){
+      /**
+       * Stop moving sideways; vertical movement (jumps) carries on.
+       */
+      this.vel.x = 0;
+      this.idle();
+    }
+
+    run(){
+      // In the air the jump and fall animations take over
+      if(this.grounded) this.animator.play('run');
+    }
+
+    enterDoor(){
+      this.stop();
+      this.animator.play('enterDoor');
+    }
+
+    idle(){
+      if(this.grounded) this.animator.play('idle');
+    }
+
+    attack(){   
+      if(this.attacking) return;
+      this.startAttack();
+      this.animator.play('attack');
+    }
+
+    hurt(){
+      // Every hit costs a life
+      this.game.playerDied();
+    }
+
+    die(){
+      this.attacking = false;
+      this.animator.play('dead');
+    }
+
+    attackEnded(){
+      if(this.vel.x != 0){
+        this.run();
+      } else {
+        this.idle();
+      }
+    }
+
+    jump() {
+      if (this.grounded) {
+        this.vel = this.vel.add(new Vector2D(0, this.jumpFactor));
+      }
+    }
+  }
+
+
+
+  /**
+   * patrol - walk back and forth, turning at walls and ledges
+   * chase  - walk towards the player
+   * attack - stand and play the attack animation
+   * throw  - stand, throw at the player and pick up the next one
+   * hit    - stunned after taking damage
+   * dead   - plays the dead animation and stays there
+   */
+  type EnemyState = 'patrol' | 'chase' | 'attack' | 'throw' | 'hit' | 'dead';
+
+  /**
+   * Throwers release what they throw on the 'release'
+   * event of their throw animation, then pick up the next one.
+   */
+  const THROWER_STATES: {[state: string]: AnimationClip} = {
+    // Throwers have no sheets of their own for these, they drop what they carry
+    hit: { sheet: 'pig_hit', loop: false, transitions: ['hit', 'dead'], sounds: { 0: 'hit' } },
+    dead: { sheet: 'pig_dead', loop: false, transitions: [], sounds: { 0: 'hit' } }
+  };
+
+  /**
+   * Enemy kinds that can be placed on a map.
+   * The Tiled object class must match a key of this object.
+   */
+  const ENEMY_TYPES: {[type: string]: EnemySetup} = {
+    Pig: {
+      width: 36,
+      height: 36,
+      scale: 2,
+      patrolSpeed: 90,
+      chaseSpeed: 180,
+      sightRange: 320,
+      attackRange: 20,
+      attackCooldown: 800,
+      attack: {
+        frames: [2, 3],
+        reach: 24,
+        damage: 1,
+        knockback: new Vector2D(300, 500)
+      },
+      health: 2,
+      invulnerableTime: 300,
+      animations: {
+        initial: 'idle',
+        states: {
+          idle: { sheet: 'pig_idle', loop: true },
+          run: { sheet: 'pig_run', loop: true },
+          attack: { sheet: 'pig_attack', loop: false, transitions: ['hit', 'dead'], sounds: { 0: 'swing' } },
+          hit: { sheet: 'pig_hit', loop: false, transitions: ['hit', 'dead'], sounds: { 0: 'hit' } },
+          dead: { sheet: 'pig_dead', loop: false, transitions: [], sounds: { 0: 'hit' } }
+        }
+      }
+    },
+    KingPig: {
+      width: 36,
+      height: 36,
+      scale: 2,
+      patrolSpeed: 70,
+      chaseSpeed: 160,
+      sightRange: 400,
+      attackRange: 24,
+      attackCooldown: 1000,
+      attack: {
+        frames: [2, 3],
+        reach: 28,
+        damage: 1,
+        knockback: new Vector2D(400, 600)
+      },
+      health: 6,
+      invulnerableTime: 400,
+      boss: 'King Pig',
+      animations: {
+        initial: 'idle',
+        states: {
+          idle: { sheet: 'king_pig_idle', loop: true },
+          run: { sheet: 'king_pig_run', loop: true },
+          attack: { sheet: 'king_pig_attack', loop: false, transitions: ['hit', 'dead'], sounds: { 0: 'swing' } },
+          hit: { sheet: 'king_pig_hit', loop: false, transitions: ['hit', 'dead'], sounds: { 0: 'hit' } },
+          dead: { sheet: 'king_pig_dead', loop: false, transitions: [], sounds: { 0: 'hit' } }
+        }
       }
+    },
+    BoxPig: {
+      width: 36,
+      height: 36,
+      scale: 2,
+      patrolSpeed: 80,
+      chaseSpeed: 140,
+      sightRange: 360,
+      attackRange: 0,
+      attackCooldown: 0,
+      throw: { projectile: 'Box', range: 280, speed: 320, cooldown: 1800 },
+      health: 2,
+      invulnerableTime: 300,
+      animations: {
+        initial: 'idle',
+        states: {
+          idle: { sheet: 'box_pig_idle', loop: true },
+          run: { sheet: 'box_pig_run', loop: true },
+          throw: { sheet: 'box_pig_throw', loop: false, next: 'pick', transitions: ['hit', 'dead'], events: { 2: 'release' } },
+          pick: { sheet: 'box_pig_pick', loop: false, transitions: ['hit', 'dead'] },
+          ...THROWER_STATES
+        }
+      }
+    },
+    BombPig: {
+      width: 36,
+      height: 36,
+      scale: 2,
+      patrolSpeed: 80,
+      chaseSpeed: 120,
+      sightRange: 400,
+      attackRange: 0,
+      attackCooldown: 0,
+      throw: { projectile: 'Bomb', range: 340, speed: 280, cooldown: 2600 },
+      health: 2,
+      invulnerableTime: 300,
+      animations: {
+        initial: 'idle',
+        states: {
+          idle: { sheet: 'bomb_pig_idle', loop: true },
+          run: { sheet: 'bomb_pig_run', loop: true },
+          throw: { sheet: 'bomb_pig_throw', loop: false, next: 'pick', transitions: ['hit', 'dead'], events: { 2: 'release' } },
+          pick: { sheet: 'bomb_pig_pick', loop: false, transitions: ['hit', 'dead'] },
+          ...THROWER_STATES
+        }
+      }
+    }
+  };
+
+  const ENEMY_TURN_PAUSE = 600; // ms an enemy idles before turning around
+
+
+  /**
+   * An Enemy is a hostile Actor driven by a small state machine
+   * (see EnemyState). Sprite sheets face left, so they are
+   * mirrored when the enemy walks right.
+   */
+  class Enemy extends Actor implements Entity {
+    readonly kind = 'enemy';
+    type: string;
+    setup: EnemySetup;
+    state: EnemyState;
+    stateTimer: number; // ms left before the current state may change
+    throwTimer: number; // ms left before it can throw again
+    target: Player;     // player it last saw, throws go there
+
+    constructor(game: GameEngine, type: string, pos: Vector2D){
+      let setup = ENEMY_TYPES[type];
+      super(game, setup.width * game.xRatio, setup.height * game.yRatio);
+      this.type = type;
+      this.setup = setup;
+      this.pos = pos;
+      this.prevPos = new Vector2D(pos.x, pos.y);
+      this.direction = 'left';
+      this.health = setup.health;
+      this.maxHealth = setup.health;
+      this.invulnerableTime = setup.invulnerableTime;
+      this.attackSetup = setup.attack;
+      this.throwTimer = 0;
+      this.target = null;
+      this.initAnimator(setup.animations, setup.scale);
+      this.animator.on('release', () => this.release());
+      this.setState('patrol');
+    }
+
+    setState(state: EnemyState){
+      this.state = state;
+      this.stateTimer = 0;
+      switch (state) {
+        case 'patrol':
+        case 'chase':
+          this.animator.play('run');
+          break;
+        case 'attack':
+          this.vel.x = 0;
+          this.startAttack();
+          this.animator.play('attack');
+          this.stateTimer = this.setup.attackCooldown;
+          break;
+        case 'throw':
+          this.vel.x = 0;
+          this.animator.play('throw');
+          this.throwTimer = this.setup.throw.cooldown;
+          break;
+        case 'hit':
+          this.vel.x = 0;
+          this.animator.play('hit');
+          break;
+        case 'dead':
+          this.vel.x = 0;
+          this.animator.play('dead');
+          break;
+      }
+    }
+
+    hit(){
+      if(this.state !== 'dead') this.setState('hit');
+    }
+
+    die(){
+      this.setState('dead');
+    }
+
+    hurt(){
+      if(this.alive){
+        this.hit();
+      } else {
+        this.die();
+      }
+    }
+
+    attackEnded(){
+      this.animator.play('idle');
+    }
+
+    onUpdate(stepTime: number){
+      // Enemies ignore the player unless it can be fought
+      this.think(this.game.state === 'playing' ? this.game.player : null, stepTime);
+      this.advance(stepTime);
+    }
+
+    think(player: Player, stepTime: number){
+      /**
+       * Decide what to do this step. Called before update()
+       * so the chosen velocity is applied straight away.
+       */
+      this.stateTimer = Math.max(0, this.stateTimer - stepTime);
+      this.throwTimer = Math.max(0, this.throwTimer - stepTime);
+      let sees = player && this.canSee(player);
+      if(sees) this.target = player;
+      switch (this.state) {
+        case 'patrol':
+          if(sees){
+            this.setState('chase');
+            this.game.dialogue.say(this, 'exclaim');
+            break;
+          }
+          this.patrol();
+          break;
+        case 'chase':
+          if(!sees){
+            this.setState('patrol');
+            this.game.dialogue.say(this, 'question');
+            break;
+          }
+          if(this.canThrowAt(player)){
+            this.face(player.pos.x < this.pos.x ? 'left' : 'right');
+            this.setState('throw');
+            break;
+          }
+          if(this.setup.attack && this.distanceTo(player) <= this.setup.attackRange){
+            this.setState('attack');
+            break;
+          }
+          this.chase(player);
+          break;
+        case 'attack':
+          if(this.stateTimer === 0){
+            this.setState(sees ? 'chase' : 'patrol');
+          }
+          break;
+        case 'throw':
+          // Done once the next one is picked up
+          if(this.animator.state === 'pick' && this.sprite.finished){
+            this.setState(sees ? 'chase' : 'patrol');
+          }
+          break;
+        case 'hit':
+          if(this.sprite.finished && this.knockbackTimer === 0){
+            this.setState(sees ? 'chase' : 'patrol');
+          }
+          break;
+        case 'dead':
+          break;
+      }
+    }
+
+    patrol(){
+      if(this.stateTimer > 0){
+        // Waiting before turning around
+        return;
+      }
+      if(this.animator.state === 'idle'){
+        this.turn();
+        this.animator.play('run');
+      }
+      if(this.blockedX || this.atLedge()){
+        this.vel.x = 0;
+        this.stateTimer = ENEMY_TURN_PAUSE;
+        this.animator.play('idle');
+        return;
+      }
+      this.walk(this.setup.patrolSpeed);
+    }
+
+    chase(player: Player){
+      this.face(player.pos.x < this.pos.x ? 'left' : 'right');
+      if(this.atLedge()){
+        // Don't follow the player off a platform
+        this.vel.x = 0;
+        this.animator.play('idle');
+        return;
+      }
+      this.animator.play('run');
+      this.walk(this.setup.chaseSpeed);
+    }
+
+    walk(speed: number){
+      this.vel.x = this.direction === 'left' ? -speed : speed;
+    }
+
+    turn(){
+      this.face(this.direction === 'left' ? 'right' : 'left');
+    }
+
+    distanceTo(actor: Actor): number {
+      /**
+       * Horizontal gap between the two hitboxes (0 if they overlap).
+       */
+      let gap = Math.max(actor.pos.x - (this.pos.x + this.width),
+        this.pos.x - (actor.pos.x + actor.width));
+      return Math.max(0, gap);
+    }
+
+    canThrowAt(player: Player): boolean {
+      let setup = this.setup.throw;
+      return setup && this.throwTimer === 0 && this.distanceTo(player) <= setup.range * this.game.xRatio;
+    }
+
+    release(){
+      /**
+       * Throw at where the target is right now, in an arc.
+       * Thrown from above the head, where it is carried.
+       */
+      let target = this.target;
+      if(!target || !this.alive) return;
+      let type = this.setup.throw.projectile;
+      let from = new Vector2D(this.pos.x + this.width / 2, this.pos.y);
+      let to = new Vector2D(target.pos.x + target.width / 2, target.pos.y + target.height / 2);
+      let gravity = this.game.gravity.y * PROJECTILE_TYPES[type].gravity;
+      let vel = ballisticVelocity(from, to, this.setup.throw.speed, gravity);
+      this.game.world.add(new Projectile(this.game, type, from, vel));
+    }
+
+    canSee(player: Player): boolean {
+      /**
+       * The player is seen when close enough and roughly
+       * on the same floor as the enemy.
+       */
+      let sameFloor = Math.abs((player.pos.y + player.height) - (this.pos.y + this.height)) < this.height;
+      return sameFloor && this.distanceTo(player) <= this.setup.sightRange * this.game.xRatio;
+    }
+
+    atLedge(): boolean {
+      /**
+       * Is there nothing to stand on just in front of the enemy's feet?
+       * Only makes sense while standing on something.
+       */
+      if(!this.grounded) return false;
+      let x = this.direction === 'left' ? this.pos.x - 1 : this.pos.x + this.width + 1;
+      // Deep enough to find a 45° slope going down under the front edge
+      let y = this.pos.y + this.height + this.width + 2;
+      return !this.game.solidAt(x, y);
+    }
+
+    draw(ctx: CanvasRenderingContext2D, alpha: number = 1){
+      let pos = this.renderPos(alpha);
+      ctx.save();
+      if(this.flashing){
+        ctx.globalAlpha = 0.3;
+      }
+      /**
+       * The sprite's pivot (its feet) goes on the
+       * middle of the hitbox's bottom.
+       */
+      this.sprite.draw(ctx, pos.x + this.width / 2, pos.y + this.height);
+      ctx.restore();
+
+      /**
+       * [Debug mode]
+       * Hitbox and current AI state
+       */
+      if(this.game.debug.isOn){
+        ctx.save();
+        ctx.beginPath();
+        ctx.strokeStyle = 'orange';
+        ctx.fillStyle = 'orange';
+        ctx.fillText(`[${this.type}: ${this.state}]`, pos.x, pos.y - 10);
+        ctx.rect(pos.x, pos.y, this.width, this.height);
+        ctx.stroke();
+        ctx.restore();
+        this.drawAttackBox(ctx);
+      }
+    }
+  }
+
+
+  /**
+   * A Door is an game actor in that it performs some animations
+   * and influences game flow.
+   */
+  const DOOR_ANIMATIONS: AnimationSetup = {
+    initial: 'closed',
+    states: {
+      closed: { sheet: 'door_idle', loop: true },
+      // Once open, the door stays open on its last frame.
+      opening: { sheet: 'door_opening', loop: false, sounds: { 0: 'door' } }
+    }
+  };
+
+
+  class Door extends Point implements Entity {
+    readonly kind = 'door';
+    game: GameEngine;
+    animator: Animator;
+    sprite: ActorSprite; 
+    open: boolean;
+    fullOpen: boolean;
+    constructor(game: GameEngine, x: number, y: number){  
+      /**
+       * animator - Animator, see DOOR_ANIMATIONS
+       * sprite - ActorSprite
+       */ 
+      let pos = new Vector2D(x, y);
+      super(pos, '[Door]');
+      this.game = game;
+      this.animator = new Animator(game.assets, DOOR_ANIMATIONS, this.pos, 2, game.ratio, game.audio);
+      this.sprite = this.animator.sprite;
+      this.animator.on('end', state => {
+        if(state === 'opening') this.fullOpen = true;
+      });
+      this.open = false;
+      this.fullOpen = false;
+    } 
+
+    onUpdate(deltaTime: number){    
+      if(this.open && this.animator.state === 'closed'){
+        this.animator.play('opening');
+      } else if(!this.open && this.animator.state !== 'closed'){
+        this.animator.play('closed', true);
+        this.fullOpen = false;
+      }
+      this.animator.update(deltaTime);
+    }
+    
+    draw(ctx: CanvasRenderingContext2D): void {
+      /**
+       * The door's point is on the floor, so the sprite
+       * (pivot top left) is lifted to stand on it.
+       */
+      let y = this.pos.y + (-this.sprite.h+15)/2;
+      this.sprite.draw(ctx, this.pos.x, y);
+      /**
+       * [Debug mode]
+       * Draw door's point of reference
+       * Draw sprite outline (cropbox)
+       */
+      if(this.game.debug.isOn){
+        /**
+         * Draw reference point (origin)
+         */
+        super.draw(ctx);
+        /**
+         * Draw door cropbox outline
+         */
+        let box = this.sprite.bounds(this.pos.x, y);
+        ctx.save();
+        ctx.beginPath()
+        ctx.strokeStyle = 'black';
+        ctx.rect(box.x, box.y, box.w, box.h);
+        ctx.stroke();
+        ctx.restore();
+      } 
+    }
+  }
+
+  /**
+   * Collectible kinds that can be placed on a map.
+   * The Tiled object class must match a key of this object.
+   */
+  const COLLECTIBLE_TYPES: {[type: string]: CollectibleSetup} = {
+    Diamond: {
+      width: 24,
+      height: 20,
+      scale: 2,
+      score: 100,
+      lives: 0,
+      animations: {
+        initial: 'idle',
+        states: {
+          idle: { sheet: 'diamond_idle', loop: true },
+          collected: { sheet: 'diamond_hit', loop: false, transitions: [], sounds: { 0: 'pickup' } }
+        }
+      }
+    },
+    Heart: {
+      width: 24,
+      height: 20,
+      scale: 2,
+      score: 0,
+      lives: 1,
+      animations: {
+        initial: 'idle',
+        states: {
+          idle: { sheet: 'heart_pickup_idle', loop: true },
+          collected: { sheet: 'heart_pickup_hit', loop: false, transitions: [], sounds: { 0: 'pickup' } }
+        }
+      }
+    }
+  };
+
+  const COLLECT_ALL_MULTIPLIER = 2; // level score multiplier for collecting everything
+  const BONUS_MESSAGE_TIME = 2000;  // ms
+
+
+  /**
+   * A Collectible floats where it was placed until the player
+   * touches it, then plays its collected animation and goes away.
+   * What it gives is up to the GameEngine (see collect()).
+   */
+  class Collectible implements Entity {
+    readonly kind = 'collectible';
+    game: GameEngine;
+    type: string;
+    setup: CollectibleSetup;
+    pos: Vector2D; // top left corner of the hitbox
+    width: number;
+    height: number;
+    animator: Animator;
+    sprite: ActorSprite;
+    collected: boolean;
+
+    constructor(game: GameEngine, type: string, pos: Vector2D){
+      let setup = COLLECTIBLE_TYPES[type];
+      this.game = game;
+      this.type = type;
+      this.setup = setup;
+      this.pos = pos;
+      this.width = setup.width * game.xRatio;
+      this.height = setup.height * game.yRatio;
+      this.collected = false;
+      this.animator = new Animator(game.assets, setup.animations, this.pos, setup.scale, game.ratio, game.audio);
+      this.sprite = this.animator.sprite;
+      this.animator.on('end', state => {
+        if(state === 'collected') game.world.remove(this);
+      });
+    }
+
+    hitbox(): Box {
+      return { x: this.pos.x, y: this.pos.y, w: this.width, h: this.height };
+    }
+
+    collect(){
+      this.collected = true;
+      this.animator.play('collected');
+    }
+
+    onUpdate(stepTime: number){
+      this.animator.update(stepTime);
+    }
+
+    draw(ctx: CanvasRenderingContext2D){
+      this.sprite.draw(ctx, this.pos.x + this.width / 2, this.pos.y + this.height / 2);
+      /**
+       * [Debug mode]
+       * Draw the hitbox
+       */
+      if(this.game.debug.isOn){
+        ctx.save();
+        ctx.beginPath();
+        ctx.strokeStyle = 'gold';
+        ctx.rect(this.pos.x, this.pos.y, this.width, this.height);
+        ctx.stroke();
+        ctx.restore();
+      }
+    }
+  }
+
+  /**
+   * Things enemies and cannons throw or shoot.
+   * Keys are what ThrowSetup and CannonSetup refer to.
+   */
+  const PROJECTILE_TYPES: {[type: string]: ProjectileSetup} = {
+    Box: {
+      width: 22,
+      height: 16,
+      scale: 2,
+      gravity: 1,
+      damage: 1,
+      knockback: new Vector2D(250, 300),
+      impact: 'break',
+      bounce: 0,
+      fuse: 0,
+      debris: ['box_piece_1', 'box_piece_2', 'box_piece_3', 'box_piece_4'],
+      animations: {
+        initial: 'fly',
+        states: {
+          fly: { sheet: 'box_idle', loop: true }
+        }
+      }
+    },
+    Bomb: {
+      width: 20,
+      height: 20,
+      scale: 2,
+      gravity: 1,
+      damage: 0,
+      knockback: new Vector2D(0, 0),
+      impact: 'stay',
+      bounce: 0.4,
+      fuse: 1600,
+      explosion: { radius: 60, damage: 1, knockback: 700, sheet: 'bomb_boom' },
+      animations: {
+        initial: 'fly',
+        states: {
+          fly: { sheet: 'bomb_on', loop: true }
+        }
+      }
+    },
+    CannonBall: {
+      width: 16,
+      height: 16,
+      scale: 2,
+      gravity: 0,
+      damage: 1,
+      knockback: new Vector2D(350, 300),
+      impact: 'break',
+      bounce: 0,
+      fuse: 0,
+      animations: {
+        initial: 'fly',
+        states: {
+          fly: { sheet: 'cannon_ball', loop: true }
+        }
+      }
+    }
+  };
+
+  const CANNON: CannonSetup = {
+    width: 28,
+    height: 18,
+    scale: 2,
+    projectile: 'CannonBall',
+    speed: 500,
+    range: 480,
+    cooldown: 1800
+  };
+
+  const CRATE: CrateSetup = {
+    width: 42,
+    height: 32,
+    scale: 2,
+    health: 1,
+    pushSpeed: 120,
+    debris: ['box_piece_1', 'box_piece_2', 'box_piece_3', 'box_piece_4'],
+    animations: {
+      initial: 'idle',
+      states: {
+        idle: { sheet: 'box_idle', loop: true },
+        hit: { sheet: 'box_hit', loop: false, next: 'idle' }
+      }
+    }
+  };
+
+  const LINE_OF_SIGHT_STEP = 8;      // px
+  const MIN_FLIGHT_TIME = 0.35;      // s, throws at close range still arc a little
+  const PROJECTILE_FRICTION = 900;   // px per second squared, sliding on the floor
+  const MIN_BOUNCE_SPEED = 150;      // px per second, slower landings don't bounce
+  const PROJECTILE_LIFETIME = 8000;  // ms, anything still around by then is removed
+  const CHAIN_FUSE = 120;            // ms left on the fuse of bombs caught in an explosion
+  const DEBRIS_TIME = 800;           // ms debris takes to fade away
+  const EXPLOSION_SHAKE = { magnitude: 10, duration: 400 }; // px, ms
+
+
+  function ballisticVelocity(from: Vector2D, to: Vector2D, speed: number, gravity: number): Vector2D {
+    /**
+     * Launch velocity that takes a body from one point to the
+     * other under gravity (px per second squared), moving
+     * sideways at speed (px per second).
+     */
+    let dx = to.x - from.x;
+    let dy = to.y - from.y;
+    let time = Math.max(MIN_FLIGHT_TIME, Math.abs(dx) / speed);
+    return new Vector2D(dx / time, dy / time - gravity * time / 2);
+  }
+
+
+  /**
+   * A Projectile flies in an arc under its share of the gravity
+   * and collides with the level like any Actor. What happens when
+   * it hits something is up to its setup (see ProjectileImpact).
+   * Only the player is hurt by direct hits; explosions hurt everyone.
+   */
+  class Projectile extends Actor implements Entity {
+    readonly kind = 'projectile';
+    type: string;
+    setup: ProjectileSetup;
+    fuseTimer: number; // ms left before exploding, 0 without a fuse
+    lifeTimer: number;
+
+    constructor(game: GameEngine, type: string, center: Vector2D, vel: Vector2D){
+      let setup = PROJECTILE_TYPES[type];
+      super(game, setup.width * game.xRatio, setup.height * game.yRatio);
+      this.type = type;
+      this.setup = setup;
+      this.pos = new Vector2D(center.x - this.width / 2, center.y - this.height / 2);
+      this.prevPos = new Vector2D(this.pos.x, this.pos.y);
+      this.vel = vel;
+      this.fuseTimer = setup.fuse;
+      this.lifeTimer = PROJECTILE_LIFETIME;
+      this.initAnimator(setup.animations, setup.scale);
+    }
+
+    get center(): Vector2D {
+      return new Vector2D(this.pos.x + this.width / 2, this.pos.y + this.height / 2);
+    }
+
+    onUpdate(stepTime: number){
+      if(this.fuseTimer > 0){
+        this.fuseTimer = Math.max(0, this.fuseTimer - stepTime);
+        if(this.fuseTimer === 0){
+          this.explode();
+          return;
+        }
+      }
+      this.lifeTimer -= stepTime;
+      if(this.lifeTimer <= 0 || this.pos.y > this.game.worldHeight ||
+        this.pos.x + this.width < 0 || this.pos.x > this.game.worldWidth){
+        this.game.world.remove(this);
+        return;
+      }
+      this.animate(stepTime);
+      this.update({
+        gravity: this.game.gravity,
+        solids: this.game.world.solids,
+        dt: stepTime / ONE_SECOND
+      });
+      let player = this.game.player;
+      if(this.game.world.has(this) && this.setup.damage > 0 && this.game.state === 'playing' &&
+        player && player.alive && overlaps(this.hitbox(), player.hitbox())){
+        player.takeDamage(this.setup.damage, this, this.setup.knockback);
+        this.impact();
+      }
+    }
+
+    update(args: ActorUpdateOptions){
+      /**
+       * Like Actor.update, with the projectile's own gravity
+       * and bouncing off whatever it hits.
+       */
+      this.prevPos = new Vector2D(this.pos.x, this.pos.y);
+      let velX = this.vel.x;
+      this.moveX(velX * args.dt, args.solids);
+      if(this.wall){
+        this.vel.x = -velX * this.setup.bounce;
+        this.impact();
+        if(!this.game.world.has(this)) return;
+      }
+      this.vel.y += args.gravity.y * this.setup.gravity * args.dt;
+      let velY = this.vel.y;
+      this.moveY(velY * args.dt, args.solids);
+      if(this.vel.y === 0 && velY !== 0){
+        // Landed or hit a ceiling, bouncing loses speed both ways
+        this.vel.y = Math.abs(velY) > MIN_BOUNCE_SPEED ? -velY * this.setup.bounce : 0;
+        this.vel.x *= this.setup.bounce;
+        this.impact();
+      }
+      if(this.grounded && this.vel.y === 0){
+        let slowdown = PROJECTILE_FRICTION * args.dt;
+        this.vel.x = Math.abs(this.vel.x) <= slowdown ? 0 : this.vel.x - Math.sign(this.vel.x) * slowdown;
+      }
+    }
+
+    impact(){
+      switch (this.setup.impact) {
+        case 'break':
+          this.shatter();
+          break;
+        case 'explode':
+          this.explode();
+          break;
+        case 'stay':
+          break;
+      }
+    }
+
+    shatter(){
+      /**
+       * Remove it and throw its pieces around.
+       */
+      let random = this.game.random;
+      for(let sheet of this.setup.debris || []){
+        let vel = new Vector2D(random.range(-200, 200), random.range(-500, -250));
+        this.game.world.add(new Debris(this.game, sheet, this.center, vel));
+      }
+      this.game.world.remove(this);
+    }
+
+    explode(){
+      if(this.setup.explosion){
+        this.game.world.add(new Explosion(this.game, this.center, this.setup.explosion));
+      }
+      this.game.world.remove(this);
+    }
+
+    draw(ctx: CanvasRenderingContext2D, alpha: number = 1){
+      let pos = this.renderPos(alpha);
+      this.sprite.draw(ctx, pos.x + this.width / 2, pos.y + this.height / 2);
+      if(this.game.debug.isOn){
+        ctx.save();
+        ctx.strokeStyle = 'orange';
+        ctx.strokeRect(pos.x, pos.y, this.width, this.height);
+        ctx.restore();
+      }
+    }
+  }
+
+
+  /**
+   * An Explosion hurts and pushes every actor within its radius
+   * the moment it appears, sets off bombs nearby, and goes away
+   * once its animation is over.
+   */
+  class Explosion implements Entity, DamageSource {
+    readonly kind = 'explosion';
+    game: GameEngine;
+    setup: ExplosionSetup;
+    pos: Vector2D; // centre
+    width = 0;
+    height = 0;
+    animator: Animator;
+    sprite: ActorSprite;
+
+    constructor(game: GameEngine, center: Vector2D, setup: ExplosionSetup){
+      this.game = game;
+      this.setup = setup;
+      this.pos = center;
+      let animations: AnimationSetup = {
+        initial: 'boom',
+        states: {
+          boom: { sheet: setup.sheet, loop: false, sounds: { 0: 'boom' } }
+        }
+      };
+      this.animator = new Animator(game.assets, animations, this.pos, 2, game.ratio, game.audio);
+      this.sprite = this.animator.sprite;
+      this.animator.on('end', () => game.world.remove(this));
+    }
+
+    get radius(): number {
+      return this.setup.radius * this.game.xRatio;
+    }
+
+    reaches(box: Box): number {
+      /**
+       * How close the box is to the centre, from 1 (centre)
+       * to 0 (edge of the radius). -1 if out of reach.
+       */
+      let x = Math.max(box.x, Math.min(this.pos.x, box.x + box.w));
+      let y = Math.max(box.y, Math.min(this.pos.y, box.y + box.h));
+      let distance = this.pos.distanceTo(new Vector2D(x, y));
+      return distance > this.radius ? -1 : 1 - distance / this.radius;
+    }
+
+    onSpawn(world: EntityWorld){
+      let targets: Array<Actor> = [...world.all('enemy'), ...world.all('crate')].filter(target => target.alive);
+      let player = this.game.player;
+      if(player && player.alive && this.game.state === 'playing'){
+        targets.push(player);
+      }
+      for(let target of targets){
+        let closeness = this.reaches(target.hitbox());
+        if(closeness < 0) continue;
+        let knockback = this.setup.knockback * (0.5 + closeness / 2);
+        target.takeDamage(this.setup.damage, this, new Vector2D(knockback, knockback));
+      }
+      for(let projectile of world.all('projectile')){
+        if(projectile.fuseTimer > CHAIN_FUSE && this.reaches(projectile.hitbox()) >= 0){
+          projectile.fuseTimer = CHAIN_FUSE;
+        }
+      }
+      this.game.camera.shake(EXPLOSION_SHAKE.magnitude * this.game.yRatio, EXPLOSION_SHAKE.duration);
+    }
+
+    onUpdate(stepTime: number){
+      this.animator.update(stepTime);
+    }
+
+    draw(ctx: CanvasRenderingContext2D){
+      this.sprite.draw(ctx, this.pos.x, this.pos.y);
+      if(this.game.debug.isOn){
+        ctx.save();
+        ctx.beginPath();
+        ctx.strokeStyle = 'red';
+        ctx.arc(this.pos.x, this.pos.y, this.radius, 0, Math.PI * 2);
+        ctx.stroke();
+        ctx.restore();
+      }
+    }
+  }
+
+
+  /**
+   * A piece of something broken. Bounces around for
+   * a moment and fades away, it doesn't hurt anyone.
+   */
+  class Debris extends Actor implements Entity {
+    readonly kind = 'debris';
+    timer: number;
+
+    constructor(game: GameEngine, sheet: string, center: Vector2D, vel: Vector2D){
+      super(game, 10 * game.xRatio, 10 * game.yRatio);
+      this.pos = new Vector2D(center.x - this.width / 2, center.y - this.height / 2);
+      this.prevPos = new Vector2D(this.pos.x, this.pos.y);
+      this.vel = vel;
+      this.sprite = new ActorSprite(this.pos, game.assets.sheet(sheet), 2, game.ratio);
+      this.timer = DEBRIS_TIME;
+    }
+
+    animate(deltaTime: number){
+      this.sprite.animate(deltaTime);
+    }
+
+    onUpdate(stepTime: number){
+      this.timer = Math.max(0, this.timer - stepTime);
+      if(this.timer === 0){
+        this.game.world.remove(this);
+        return;
+      }
+      this.advance(stepTime);
+      if(this.grounded) this.vel.x *= 0.8;
+    }
+
+    draw(ctx: CanvasRenderingContext2D, alpha: number = 1){
+      let pos = this.renderPos(alpha);
+      ctx.save();
+      ctx.globalAlpha = this.timer / DEBRIS_TIME;
+      this.sprite.draw(ctx, pos.x + this.width / 2, pos.y + this.height / 2);
+      ctx.restore();
+    }
+  }
+
+
+  /**
+   * A Cannon stands on the floor and shoots CANNON.projectile
+   * straight ahead. With an interval it fires on that schedule,
+   * without one it fires whenever it has a clear shot at the player.
+   */
+  class Cannon implements Entity {
+    readonly kind = 'cannon';
+    game: GameEngine;
+    pos: Vector2D; // top left corner
+    width: number;
+    height: number;
+    direction: string;
+    interval: number; // ms between shots, 0 to fire at the player
+    timer: number;    // ms left before it can fire
+    animator: Animator;
+    sprite: ActorSprite;
+
+    constructor(game: GameEngine, pos: Vector2D, direction: string, interval: number){
+      this.game = game;
+      this.pos = pos;
+      this.width = CANNON.width * game.xRatio;
+      this.height = CANNON.height * game.yRatio;
+      this.direction = direction;
+      this.interval = interval;
+      this.timer = interval;
+      let animations: AnimationSetup = {
+        initial: 'idle',
+        states: {
+          idle: { sheet: 'cannon_idle', loop: true },
+          shoot: { sheet: 'cannon_shoot', loop: false, next: 'idle', events: { 1: 'fire' } }
+        }
+      };
+      this.animator = new Animator(game.assets, animations, this.pos, CANNON.scale, game.ratio, game.audio);
+      this.animator.face(direction);
+      this.sprite = this.animator.sprite;
+      this.animator.on('fire', () => this.fire());
+    }
+
+    get muzzle(): Vector2D {
+      let x = this.direction === 'left' ? this.pos.x : this.pos.x + this.width;
+      return new Vector2D(x, this.pos.y + this.height * 0.4);
+    }
+
+    canSee(player: Player): boolean {
+      /**
+       * In front of the muzzle, at its height and
+       * within range, with nothing in between.
+       */
+      let muzzle = this.muzzle;
+      let box = player.hitbox();
+      let ahead = this.direction === 'left' ? box.x + box.w <= muzzle.x : box.x >= muzzle.x;
+      if(!ahead || box.y > muzzle.y || box.y + box.h < muzzle.y) return false;
+      let target = new Vector2D(box.x + box.w / 2, muzzle.y);
+      return muzzle.distanceTo(target) <= CANNON.range * this.game.xRatio && this.game.clearLine(muzzle, target);
+    }
+
+    onUpdate(stepTime: number){
+      this.timer = Math.max(0, this.timer - stepTime);
+      this.animator.update(stepTime);
+      if(this.timer > 0) return;
+      let player = this.game.player;
+      if(this.interval > 0){
+        this.shoot();
+        this.timer = this.interval;
+      } else if(this.game.state === 'playing' && player && player.alive && this.canSee(player)){
+        this.shoot();
+        this.timer = CANNON.cooldown;
+      }
+    }
+
+    shoot(){
+      // The ball comes out with the muzzle flash
+      this.animator.play('shoot', true);
+    }
+
+    fire(){
+      let speed = this.direction === 'left' ? -CANNON.speed : CANNON.speed;
+      this.game.world.add(new Projectile(this.game, CANNON.projectile, this.muzzle, new Vector2D(speed, 0)));
+    }
+
+    draw(ctx: CanvasRenderingContext2D){
+      this.sprite.draw(ctx, this.pos.x + this.width / 2, this.pos.y + this.height);
+      if(this.game.debug.isOn){
+        ctx.save();
+        ctx.strokeStyle = 'orange';
+        ctx.strokeRect(this.pos.x, this.pos.y, this.width, this.height);
+        ctx.restore();
+      }
+    }
+  }
+
+
+  /**
+   * A Crate falls like any Actor and is solid itself: its block
+   * sits in the solids grid, so actors stand on it and bump into it,
+   * and crates stack. The player pushes it by walking into it.
+   * It breaks when attacked or caught in an explosion, and can
+   * leave a collectible behind.
+   */
+  class Crate extends Actor implements Entity {
+    readonly kind = 'crate';
+    block: CollisionBlock; // shares the crate's position
+    drop: string;          // COLLECTIBLE_TYPES key, or null
+    pushVel: number;       // px per second, set by whatever pushed it since the last update
+
+    constructor(game: GameEngine, pos: Vector2D, drop: string = null){
+      super(game, CRATE.width * game.xRatio, CRATE.height * game.yRatio);
+      this.pos = pos;
+      this.prevPos = new Vector2D(pos.x, pos.y);
+      this.maxHealth = CRATE.health;
+      this.health = this.maxHealth;
+      this.drop = drop;
+      this.pushVel = 0;
+      this.block = new CollisionBlock(pos.x, pos.y, this.width, this.height);
+      this.block.pos = this.pos;
+      this.initAnimator(CRATE.animations, CRATE.scale);
+    }
+
+    get center(): Vector2D {
+      return new Vector2D(this.pos.x + this.width / 2, this.pos.y + this.height / 2);
+    }
+
+    onSpawn(world: EntityWorld){
+      world.add(this.block);
+    }
+
+    onDestroy(world: EntityWorld){
+      world.remove(this.block);
+    }
+
+    push(direction: number){
+      this.pushVel = direction * CRATE.pushSpeed;
+    }
+
+    onUpdate(stepTime: number){
+      let world = this.game.world;
+      // Out of the grid while it moves, so it doesn't bump into itself
+      world.solids.remove(this.block);
+      this.vel.x = this.pushVel;
+      this.pushVel = 0;
+      this.advance(stepTime);
+      world.solids.insert(this.block);
+      // Pushed into another crate, that one gets pushed too
+      let next = world.all('crate').find(crate => crate.block === this.wallBlock);
+      if(next) next.push(this.wall === 'right' ? 1 : -1);
+      if(this.pos.y > this.game.worldHeight) world.remove(this);
+    }
+
+    takeDamage(amount: number, source: DamageSource, knockback: Vector2D): boolean {
+      // Crates don't get knocked around
+      return super.takeDamage(amount, source, new Vector2D(0, 0));
+    }
+
+    hurt(){
+      if(this.alive){
+        this.animator.play('hit', true);
+      } else {
+        this.shatter();
+      }
+    }
+
+    shatter(){
+      /**
+       * Remove it, throw its pieces around and
+       * leave its collectible where it stood.
+       */
+      let random = this.game.random;
+      let center = this.center;
+      for(let sheet of CRATE.debris){
+        let vel = new Vector2D(random.range(-200, 200), random.range(-500, -250));
+        this.game.world.add(new Debris(this.game, sheet, center, vel));
+      }
+      if(this.drop){
+        let setup = COLLECTIBLE_TYPES[this.drop];
+        let pos = new Vector2D(
+          center.x - setup.width * this.game.xRatio / 2,
+          center.y - setup.height * this.game.yRatio / 2
+        );
+        this.game.world.add(new Collectible(this.game, this.drop, pos));
+      }
+      this.game.world.remove(this);
+    }
+
+    draw(ctx: CanvasRenderingContext2D, alpha: number = 1){
+      let pos = this.renderPos(alpha);
+      this.sprite.draw(ctx, pos.x + this.width / 2, pos.y + this.height / 2);
+      if(this.game.debug.isOn){
+        ctx.save();
+        ctx.strokeStyle = 'orange';
+        ctx.strokeRect(pos.x, pos.y, this.width, this.height);
+        ctx.restore();
+      }
+    }
+  }
+
+  interface GameEngineOptions {
+    gravity: number // px per second squared
+    scale?: number
+    player?: PlayerOptions
+    startLevel: number
+    /**
+     * Running headless (no page) needs all three:
+     * assets - HeadlessAssets instead of the <img> tags
+     * input  - e.g. ScriptedInput instead of the keyboard
+     * levels - maps already loaded, loadLevels() needs the DOM
+     * Saves, audio settings and input bindings go to localStorage unless a storage is given.
+     */
+    assets?: AssetSource
+    input?: InputSource
+    levels?: {[level: number]: LevelMap}
+    storage?: SaveStorage
+  }
+
+  /**
+   * loading        - maps are still being fetched
+   * playing        - normal gameplay, input goes to the player
+   * changingLevel  - player went through a door, see LevelTransition
+   * dying          - player lost a life, waiting to respawn
+   * gameOver       - no lives left, waiting for continue/restart
+   * talking        - a conversation is on, input advances it (see Dialogue)
+   * editing        - the level is frozen and being edited (see LevelEditor)
+   * won            - last level finished
+   */
+  type GameState = 'loading' | 'playing' | 'changingLevel' | 'dying' | 'gameOver' | 'talking' | 'editing' | 'won';
+
+  /**
+   * entering - waiting for the door and enterDoor animations to finish
+   * fadeOut  - screen fading to black, next level is built at the end
+   * fadeIn   - screen fading back in on the new level
+   */
+  /**
+   * Logical actions the game reacts to. Keys and gamepad
+   * buttons are bound to these (see InputManager).
+   */
+  type InputAction = 'moveLeft' | 'moveRight' | 'jump' | 'drop' | 'interact' | 'attack' | 'toggleDebug'
+    | 'toggleRecording' | 'toggleMute' | 'toggleEditor' | 'menuUp' | 'menuDown' | 'confirm'
+    | 'pause' | 'step' | 'slower' | 'faster' | 'prevTool' | 'nextTool';
+
+  interface InputBindings {
+    keys: {[action in InputAction]: Array<string>}      // KeyboardEvent.key values
+    buttons: {[action in InputAction]: Array<number>}   // standard gamepad button indexes
+  }
+
+  interface ActionEvent {
+    action: InputAction
+    pressed: boolean // false when released
+  }
+
+  /**
+   * Polled once per simulation step by the GameEngine.
+   */
+  interface InputSource {
+    poll(): Array<ActionEvent>
+    isHeld(action: InputAction): boolean
+  }
+
+  interface RecordedInput {
+    tick: number // simulation step, counted from the start of the recording
+    action: InputAction
+    pressed: boolean
+  }
+
+  /**
+   * A recorded play session. Replaying the inputs from the same
+   * level, seed and canvas size must end with the same checksum.
+   */
+  interface Recording {
+    version: number
+    level: number
+    seed: number
+    canvas: { width: number, height: number }
+    ticks: number
+    inputs: Array<RecordedInput>
+    final: { x: number, y: number } // player position after the last tick
+    checksum: string
+  }
+
+  /**
+   * What a save slot holds. Changing the shape means bumping
+   * SAVE_VERSION and adding a SAVE_MIGRATIONS entry for the old one.
+   */
+  interface SaveData {
+    version: number
+    savedAt: string // ISO date
+    progress: {
+      unlockedLevels: Array<number>
+      currentLevel: number
+      lives: number
+      score: number
+    }
+    settings: GameSettings
+  }
+  interface GameSettings {
+    debug: boolean
+  }
+  /**
+   * The part of localStorage saves use, so headless runs
+   * can keep them in memory instead.
+   */
+  interface SaveStorage {
+    getItem(key: string): string
+    setItem(key: string, value: string): void
+    removeItem(key: string): void
+  }
+
+  interface LevelTransition {
+    phase: 'entering' | 'fadeOut' | 'fadeIn'
+    door: Door
+    fade: number // 0 = fully visible, 1 = fully black
+  }
+
+  const ONE_SECOND = 1000;
+  /**
+   * The simulation always advances in steps of TIME_STEP ms,
+   * no matter how often the browser draws.
+   * MAX_FRAME_TIME caps how much time one frame can catch up on
+   * (e.g. after switching tabs) so we don't freeze simulating it.
+   */
+  const TIME_STEP = ONE_SECOND / 60;
+  const MAX_FRAME_TIME = 250;
+  const FADE_DURATION = 500; // ms for a full fade in or out
+  const RESPAWN_DELAY = 800; // ms between the end of the dead animation and respawning
+  const GAME_OVER_OPTIONS = ['Continue', 'Restart'];
+  /**
+   * How much of a level is on screen, in tiles. Levels bigger
+   * than this scroll (see Camera).
+   */
+  const VIEW_TILES = { x: 16, y: 9 };
+  const CAMERA_DEAD_ZONE = { x: 0.2, y: 0.3 }; // part of the screen the player moves in freely
+  const CAMERA_SMOOTHING = 8;                  // per second, higher catches up faster
+  const SHAKE_FREQUENCY = 30;                  // oscillations per second
+  const HIT_SHAKE = { magnitude: 8, duration: 300 }; // px, ms
+
+
+  /**
+   * Small seeded random number generator (mulberry32).
+   * Anything random in the game must use GAME.random so that
+   * recordings replay the same way.
+   */
+  class Random {
+    state: number;
+
+    constructor(seed: number){
+      this.state = seed >>> 0;
+    }
+
+    next(): number {
+      /**
+       * Float between 0 (inclusive) and 1 (exclusive).
+       */
+      let t = this.state = (this.state + 0x6D2B79F5) >>> 0;
+      t = Math.imul(t ^ (t >>> 15), t | 1);
+      t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+      return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    }
+
+    range(min: number, max: number): number {
+      return min + this.next() * (max - min);
+    }
+
+    int(min: number, max: number): number {
+      /**
+       * Whole number from min to max, both included.
+       */
+      return Math.floor(this.range(min, max + 1));
+    }
+  }
+
+  /**
+   * Buckets solids into square cells so collision checks only
+   * look at what is near the actor instead of the whole level.
+   * A solid is added to every cell it touches, edges included.
+   */
+  class SpatialGrid<T extends Solid> {
+    cellSize: number;
+    cells: Map<string, Array<T>>;
+    size: number;
+
+    constructor(cellSize: number){
+      /**
+       * cellSize - px, usually one tile
+       */
+      this.cellSize = Math.max(1, cellSize);
+      this.cells = new Map();
+      this.size = 0;
+    }
+
+    cellKey(col: number, row: number): string {
+      return col + ',' + row;
+    }
+
+    span(box: Box): {x0: number, y0: number, x1: number, y1: number} {
+      /**
+       * Cell columns and rows covered by the box.
+       */
+      return {
+        x0: Math.floor(box.x / this.cellSize),
+        y0: Math.floor(box.y / this.cellSize),
+        x1: Math.floor((box.x + box.w) / this.cellSize),
+        y1: Math.floor((box.y + box.h) / this.cellSize)
+      };
+    }
+
+    insert(item: T){
+      let span = this.span({ x: item.pos.x, y: item.pos.y, w: item.w, h: item.h });
+      for(let col = span.x0; col <= span.x1; col++){
+        for(let row = span.y0; row <= span.y1; row++){
+          let key = this.cellKey(col, row);
+          let cell = this.cells.get(key);
+          if(!cell){
+            cell = [];
+            this.cells.set(key, cell);
+          }
+          cell.push(item);
+        }
+      }
+      this.size++;
+    }
+
+    query(box: Box): Array<T> {
+      /**
+       * Solids in the cells the box touches. They may not
+       * actually overlap the box - that's up to the caller.
+       */
+      let span = this.span(box);
+      let found: Array<T> = [];
+      for(let col = span.x0; col <= span.x1; col++){
+        for(let row = span.y0; row <= span.y1; row++){
+          let cell = this.cells.get(this.cellKey(col, row));
+          if(!cell) continue;
+          for(let item of cell){
+            if(found.indexOf(item) === -1) found.push(item);
+          }
+        }
+      }
+      return found;
+    }
+
+    remove(item: T){
+      let span = this.span({ x: item.pos.x, y: item.pos.y, w: item.w, h: item.h });
+      let found = false;
+      for(let col = span.x0; col <= span.x1; col++){
+        for(let row = span.y0; row <= span.y1; row++){
+          let cell = this.cells.get(this.cellKey(col, row));
+          let index = cell ? cell.indexOf(item) : -1;
+          if(index === -1) continue;
+          cell.splice(index, 1);
+          found = true;
+        }
+      }
+      if(found) this.size--;
+    }
+
+    clear(){
+      this.cells.clear();
+      this.size = 0;
+    }
+  }
+
+  /**
+   * How the EntityWorld treats each kind of entity.
+   * Kinds are updated and drawn in this order.
+   */
+  const ENTITY_KINDS: {[kind in EntityKind]: EntityKindSetup} = {
+    solid: { collection: 'solids', debugOnly: true },
+    spawn: { collection: 'props', debugOnly: true },
+    door: { collection: 'props', debugOnly: false },
+    cannon: { collection: 'props', debugOnly: false },
+    crate: { collection: 'props', debugOnly: false },
+    enemy: { collection: 'actors', debugOnly: false },
+    player: { collection: 'actors', debugOnly: false },
+    projectile: { collection: 'actors', debugOnly: false },
+    explosion: { collection: 'actors', debugOnly: false },
+    debris: { collection: 'actors', debugOnly: false },
+    collectible: { collection: 'props', debugOnly: false },
+    trigger: { collection: 'props', debugOnly: true },
+    bubble: { collection: 'actors', debugOnly: false }
+  };
+
+  /**
+   * The EntityWorld holds everything that lives in a level,
+   * grouped by kind. Solids are also kept in a SpatialGrid
+   * for collision queries.
+   */
+  class EntityWorld {
+    entities: {[kind in EntityKind]: Array<EntityKinds[kind]>};
+    solids: SpatialGrid<CollisionBlock>;
+
+    constructor(cellSize: number = 1){
+      this.reset(cellSize);
+    }
+
+    reset(cellSize: number){
+      /**
+       * Destroy everything and start over with an empty level.
+       * cellSize - px, size of the solids' grid cells (usually one tile)
+       */
+      if(this.entities){
+        for(let kind of this.kinds){
+          for(let entity of [...this.entities[kind]]){
+            this.remove(entity);
+          }
+        }
+      }
+      let entities = {} as {[kind in EntityKind]: Array<AnyEntity>};
+      for(let kind of this.kinds){
+        entities[kind] = [];
+      }
+      this.entities = entities as EntityWorld['entities'];
+      this.solids = new SpatialGrid<CollisionBlock>(cellSize);
+    }
+
+    get kinds(): Array<EntityKind> {
+      return Object.keys(ENTITY_KINDS) as Array<EntityKind>;
+    }
+
+    add<T extends AnyEntity>(entity: T): T {
+      let list = this.entities[entity.kind] as Array<AnyEntity>;
+      if(list.includes(entity)) return entity;
+      list.push(entity);
+      if(ENTITY_KINDS[entity.kind].collection === 'solids'){
+        this.solids.insert(entity as CollisionBlock);
+      }
+      let hooks: Entity = entity;
+      if(hooks.onSpawn) hooks.onSpawn(this);
+      return entity;
+    }
+
+    remove(entity: AnyEntity){
+      let list = this.entities[entity.kind] as Array<AnyEntity>;
+      let index = list.indexOf(entity);
+      if(index === -1) return;
+      list.splice(index, 1);
+      if(ENTITY_KINDS[entity.kind].collection === 'solids'){
+        this.solids.remove(entity as CollisionBlock);
+      }
+      let hooks: Entity = entity;
+      if(hooks.onDestroy) hooks.onDestroy(this);
+    }
+
+    removeWhere<K extends EntityKind>(kind: K, test: (entity: EntityKinds[K]) => boolean){
+      for(let entity of this.all(kind).filter(test)){
+        this.remove(entity);
+      }
+    }
+
+    has(entity: AnyEntity): boolean {
+      return (this.entities[entity.kind] as Array<AnyEntity>).includes(entity);
+    }
+
+    all<K extends EntityKind>(kind: K): Array<EntityKinds[K]> {
+      /**
+       * The live list, copy it before removing while looping.
+       */
+      return this.entities[kind];
+    }
+
+    first<K extends EntityKind>(kind: K): EntityKinds[K] {
+      return this.entities[kind][0] || null;
+    }
+
+    last<K extends EntityKind>(kind: K): EntityKinds[K] {
+      let list = this.entities[kind];
+      return list[list.length - 1] || null;
+    }
+
+    inCollection(collection: EntityCollection): Array<EntityKind> {
+      return this.kinds.filter(kind => ENTITY_KINDS[kind].collection === collection);
+    }
+
+    update(stepTime: number){
+      for(let kind of this.kinds){
+        // Entities may add or remove others while updating
+        for(let entity of [...this.entities[kind]] as Array<AnyEntity>){
+          let hooks: Entity = entity;
+          if(hooks.onUpdate && this.has(entity)) hooks.onUpdate(stepTime);
+        }
+      }
+    }
+
+    draw(ctx: CanvasRenderingContext2D, alpha: number, collection: EntityCollection, debug: boolean){
+      for(let kind of this.inCollection(collection)){
+        if(ENTITY_KINDS[kind].debugOnly && !debug) continue;
+        for(let entity of this.entities[kind] as Array<Entity>){
+          if(entity.draw) entity.draw(ctx, alpha);
+        }
+      }
+    }
+  }
+
+
+  /**
+   * Where a HudElement sits on the screen. Offsets are measured
+   * from the anchor towards the middle of the screen, so elements
+   * keep to their corner whatever the canvas size.
+   */
+  type HudAnchor = 'topLeft' | 'top' | 'topRight' | 'bottomLeft' | 'bottom' | 'bottomRight';
+  /**
+   * A piece of the HUD. Sizes and offsets are in px at scale 1,
+   * draw() works in the element's own coordinates (0, 0 is
+   * its top left corner) and the Hud scales it to the canvas.
+   */
+  interface HudElement {
+    anchor: HudAnchor
+    offset: AtlasPoint
+    width: number
+    height: number
+    visible?(): boolean
+    update?(stepTime: number): void
+    draw(ctx: CanvasRenderingContext2D): void
+  }
+
+  /**
+   * The Hud draws its elements on top of the level, without
+   * the camera. Elements read what they show from the game
+   * every step, nothing has to tell them about changes.
+   */
+  class Hud {
+    game: GameEngine;
+    elements: Array<HudElement>;
+
+    constructor(game: GameEngine){
+      this.game = game;
+      this.elements = [];
+    }
+
+    get scale(): number {
+      // The level sets the ratio, before that it is 1
+      return this.game.yRatio || 1;
+    }
+
+    add<T extends HudElement>(element: T): T {
+      this.elements.push(element);
+      return element;
+    }
+
+    place(element: HudElement): Box {
+      /**
+       * Where the element goes on the canvas right now.
+       */
+      let scale = this.scale;
+      let w = element.width * scale;
+      let h = element.height * scale;
+      let offsetX = element.offset.x * scale;
+      let offsetY = element.offset.y * scale;
+      let canvas = this.game.canvas;
+      let x = (canvas.width - w) / 2 + offsetX;
+      if(element.anchor.endsWith('Left')){
+        x = offsetX;
+      } else if(element.anchor.endsWith('Right')){
+        x = canvas.width - w - offsetX;
+      }
+      let y = element.anchor.startsWith('top') ? offsetY : canvas.height - h - offsetY;
+      return { x, y, w, h };
+    }
+
+    update(stepTime: number){
+      for(let element of this.elements){
+        if(element.update) element.update(stepTime);
+      }
+    }
+
+    draw(ctx: CanvasRenderingContext2D){
+      let scale = this.scale;
+      for(let element of this.elements){
+        if(element.visible && !element.visible()) continue;
+        let box = this.place(element);
+        ctx.save();
+        ctx.translate(box.x, box.y);
+        ctx.scale(scale, scale);
+        element.draw(ctx);
+        ctx.restore();
+      }
+    }
+  }
+
+  const HEART_ANIMATIONS: AnimationSetup = {
+    initial: 'idle',
+    states: {
+      idle: { sheet: 'heart_idle', loop: true },
+      lost: { sheet: 'heart_lost', loop: false, transitions: [] }
+    }
+  };
+  const HEART_SCALE = 2.5;
+  const HEART_GAIN_TIME = 300; // ms a new heart takes to grow in
+
+
+  /**
+   * One heart of the LivesBar. New hearts grow in, lost ones
+   * play their lost animation and are then dropped by the bar.
+   */
+  class Heart {
+    animator: Animator;
+    sprite: ActorSprite;
+    gainTimer: number; // ms left growing in
+    lost: boolean;
+
+    constructor(assets: AssetSource){
+      this.animator = new Animator(assets, HEART_ANIMATIONS, new Vector2D(0, 0), HEART_SCALE);
+      this.sprite = this.animator.sprite;
+      this.gainTimer = HEART_GAIN_TIME;
+      this.lost = false;
+    }
+
+    get gone(): boolean {
+      return this.lost && this.sprite.finished;
+    }
+
+    lose(){
+      this.lost = true;
+      this.gainTimer = 0;
+      this.animator.play('lost');
+    }
+
+    update(stepTime: number){
+      this.gainTimer = Math.max(0, this.gainTimer - stepTime);
+      this.animator.update(stepTime);
+    }
+
+    draw(ctx: CanvasRenderingContext2D, x: number, y: number){
+      this.sprite.scale = HEART_SCALE * (1 - this.gainTimer / HEART_GAIN_TIME);
+      this.sprite.draw(ctx, x, y);
+    }
+  }
+
+
+  /**
+   * Top left: the lives bar with one Heart per life of the player.
+   */
+  class LivesBar implements HudElement {
+    anchor: HudAnchor = 'topLeft';
+    offset = { x: 0, y: 0 };
+    width = 132;
+    height = 68;
+    game: GameEngine;
+    hearts: Array<Heart>;
+
+    constructor(game: GameEngine){
+      this.game = game;
+      this.hearts = [];
+    }
+
+    update(stepTime: number){
+      /**
+       * Hearts follow player.lives, they are added
+       * on the right and lost from the right.
+       */
+      let lives = this.game.player ? this.game.player.lives : 0;
+      let kept = this.hearts.filter(heart => !heart.lost);
+      for(let i = kept.length; i < lives; i++){
+        this.hearts.push(new Heart(this.game.assets));
+      }
+      for(let heart of kept.slice(lives)){
+        heart.lose();
+      }
+      for(let heart of this.hearts){
+        heart.update(stepTime);
+      }
+      this.hearts = this.hearts.filter(heart => !heart.gone);
+    }
+
+    draw(ctx: CanvasRenderingContext2D){
+      let sheet = this.game.assets.sheet('lives_bar');
+      if(sheet.image){
+        let bar = sheet.frames[0];
+        ctx.drawImage(sheet.image, bar.x, bar.y, bar.w, bar.h, 0, 0, this.width, this.height);
+      }
+      // Offset to sit inside the bar
+      this.hearts.forEach((heart, i) => heart.draw(ctx, 44.5 + 22 * i, 37.5));
+    }
+  }
+
+
+  /**
+   * Under the lives bar: collected diamonds of the level and the score.
+   */
+  class ScoreCounter implements HudElement {
+    anchor: HudAnchor = 'topLeft';
+    offset = { x: 10, y: 80 };
+    width = 200;
+    height = 60;
+    game: GameEngine;
+
+    constructor(game: GameEngine){
+      this.game = game;
+    }
+
+    draw(ctx: CanvasRenderingContext2D){
+      let count = this.game.collectibles;
+      let diamond = this.game.assets.sheet('diamond_idle');
+      if(diamond.image){
+        let frame = diamond.frames[0];
+        ctx.drawImage(diamond.image, frame.x, frame.y, frame.w, frame.h, 0, 0, frame.w * 2, frame.h * 2);
+      }
+      ctx.fillStyle = 'white';
+      ctx.textBaseline = 'top';
+      ctx.font = '24px Roboto';
+      ctx.fillText(`${count.collected}/${count.total}`, 40, 0);
+      ctx.fillText(`Score ${this.game.score}`, 0, 30);
+    }
+  }
+
+
+  /**
+   * Top middle: the level being played and how long the player has been on it.
+   */
+  class LevelInfo implements HudElement {
+    anchor: HudAnchor = 'top';
+    offset = { x: 0, y: 10 };
+    width = 200;
+    height = 50;
+    game: GameEngine;
+
+    constructor(game: GameEngine){
+      this.game = game;
+    }
+
+    draw(ctx: CanvasRenderingContext2D){
+      let seconds = Math.floor(this.game.levelTime / ONE_SECOND);
+      let minutes = Math.floor(seconds / 60);
+      ctx.fillStyle = 'white';
+      ctx.textAlign = 'center';
+      ctx.textBaseline = 'top';
+      ctx.font = '20px Roboto';
+      ctx.fillText(`Level ${this.game.currentLevel}`, this.width / 2, 0);
+      ctx.fillText(`${minutes}:${String(seconds % 60).padStart(2, '0')}`, this.width / 2, 26);
+    }
+  }
+
+
+  /**
+   * Shown for a while when every collectible of the level is picked up.
+   */
+  class BonusBanner implements HudElement {
+    anchor: HudAnchor = 'top';
+    offset = { x: 0, y: 120 };
+    width = 400;
+    height = 30;
+    game: GameEngine;
+
+    constructor(game: GameEngine){
+      this.game = game;
+    }
+
+    visible(): boolean {
+      return this.game.bonusTimer > 0;
+    }
+
+    draw(ctx: CanvasRenderingContext2D){
+      ctx.fillStyle = 'white';
+      ctx.textAlign = 'center';
+      ctx.textBaseline = 'top';
+      ctx.font = '24px Roboto';
+      ctx.fillText(`All collected! Score x${COLLECT_ALL_MULTIPLIER}`, this.width / 2, 0);
+    }
+  }
+
+
+  const BOSS_BAR_SPEED = 2; // health per second the drained part of the bar catches up
+
+
+  /**
+   * Bottom middle: health of the first living enemy whose
+   * setup has a boss name. Hidden when there is none.
+   * Lost health drains away instead of vanishing at once.
+   */
+  class BossHealthBar implements HudElement {
+    anchor: HudAnchor = 'bottom';
+    offset = { x: 0, y: 20 };
+    width = 400;
+    height = 44;
+    game: GameEngine;
+    boss: Enemy;
+    shownHealth: number; // trails the boss' health
+
+    constructor(game: GameEngine){
+      this.game = game;
+      this.boss = null;
+      this.shownHealth = 0;
+    }
+
+    visible(): boolean {
+      // The dialogue box takes its place while talking
+      return this.boss !== null && !this.game.dialogue.active;
+    }
+
+    update(stepTime: number){
+      let boss = this.game.world.all('enemy').find(enemy => enemy.setup.boss && enemy.alive) || null;
+      if(boss !== this.boss){
+        this.boss = boss;
+        this.shownHealth = boss ? boss.health : 0;
+      }
+      if(!boss) return;
+      let drain = BOSS_BAR_SPEED * stepTime / ONE_SECOND;
+      this.shownHealth = Math.max(boss.health, this.shownHealth - drain);
+    }
+
+    draw(ctx: CanvasRenderingContext2D){
+      let boss = this.boss;
+      let barY = 24;
+      let barH = this.height - barY;
+      ctx.fillStyle = 'white';
+      ctx.textAlign = 'center';
+      ctx.textBaseline = 'top';
+      ctx.font = '18px Roboto';
+      ctx.fillText(boss.setup.boss, this.width / 2, 0);
+      ctx.fillStyle = 'rgba(0, 0, 0, 0.6)';
+      ctx.fillRect(0, barY, this.width, barH);
+      ctx.fillStyle = 'white';
+      ctx.fillRect(0, barY, this.width * this.shownHealth / boss.maxHealth, barH);
+      ctx.fillStyle = 'crimson';
+      ctx.fillRect(0, barY, this.width * boss.health / boss.maxHealth, barH);
+      ctx.strokeStyle = 'white';
+      ctx.strokeRect(0, barY, this.width, barH);
+    }
+  }
+
+
+  const BUBBLE_TIME = 1500; // ms a speech bubble stays up by default
+  const BUBBLE_SCALE = 2;
+  const PLAYER_NAME = 'King';
+  const TYPEWRITER_SPEED = 40; // characters per second
+
+  /**
+   * Conversations by id. Map objects of class "Dialogue"
+   * start the conversation their name refers to.
+   */
+  const CONVERSATIONS: {[id: string]: Array<DialogueLine>} = {
+    kingPig: [
+      { speaker: 'KingPig', bubble: 'hello', text: 'Well, well. The human king came all the way to my castle.' },
+      { speaker: 'player', bubble: 'wtf', text: 'Your castle? You took it while I was asleep!' },
+      { speaker: 'KingPig', bubble: 'loser', text: 'Finders keepers. Come and get it, if you can.' },
+      { speaker: 'player', bubble: 'attack', text: 'Gladly.' }
+    ]
+  };
+
+
+  /**
+   * A SpeechBubble pops up above an actor's head, follows it
+   * around and goes away after a while (or when closed).
+   */
+  class SpeechBubble implements Entity {
+    readonly kind = 'bubble';
+    game: GameEngine;
+    speaker: Player | Enemy;
+    bubble: string;
+    timer: number; // ms left before it goes away, Infinity until closed
+    animator: Animator;
+    sprite: ActorSprite;
+
+    constructor(game: GameEngine, speaker: Player | Enemy, bubble: string, duration: number){
+      if(!SPEECH_BUBBLES[bubble]){
+        throw new Error(`Unknown speech bubble "${bubble}"`);
+      }
+      this.game = game;
+      this.speaker = speaker;
+      this.bubble = bubble;
+      this.timer = duration;
+      let animations: AnimationSetup = {
+        initial: 'in',
+        states: {
+          // Stays on its last frame while the bubble is up
+          in: { sheet: `bubble_${bubble}_in`, loop: false },
+          out: { sheet: `bubble_${bubble}_out`, loop: false, transitions: [] }
+        }
+      };
+      this.animator = new Animator(game.assets, animations, new Vector2D(0, 0), BUBBLE_SCALE, game.ratio, game.audio);
+      this.sprite = this.animator.sprite;
+      this.animator.on('end', state => {
+        if(state === 'out') game.world.remove(this);
+      });
+    }
+
+    close(){
+      this.timer = 0;
+    }
+
+    onUpdate(stepTime: number){
+      // Gone with its speaker
+      if(!this.game.world.has(this.speaker)){
+        this.game.world.remove(this);
+        return;
+      }
+      this.timer = Math.max(0, this.timer - stepTime);
+      if(this.timer === 0 && this.animator.state !== 'out'){
+        this.animator.play('out');
+      }
+      this.animator.update(stepTime);
+    }
+
+    draw(ctx: CanvasRenderingContext2D, alpha: number){
+      /**
+       * The tail points at the top of the speaker's head.
+       */
+      let pos = this.speaker.renderPos(alpha);
+      this.sprite.draw(ctx, pos.x + this.speaker.width / 2, pos.y - 4 * this.game.yRatio);
+    }
+  }
+
+
+  /**
+   * An area of the map that starts a conversation the first
+   * time the player walks into it.
+   */
+  class DialogueTrigger implements Entity {
+    readonly kind = 'trigger';
+    game: GameEngine;
+    box: Box;
+    conversation: string; // CONVERSATIONS id
+    fired: boolean;
+
+    constructor(game: GameEngine, box: Box, conversation: string){
+      this.game = game;
+      this.box = box;
+      this.conversation = conversation;
+      this.fired = false;
+    }
+
+    onUpdate(){
+      let game = this.game;
+      if(this.fired || game.state !== 'playing' || !game.player) return;
+      if(overlaps(this.box, game.player.hitbox())){
+        this.fired = game.dialogue.start(this.conversation);
+      }
+    }
+
+    draw(ctx: CanvasRenderingContext2D){
+      ctx.save();
+      ctx.strokeStyle = this.fired ? 'grey' : 'magenta';
+      ctx.strokeRect(this.box.x, this.box.y, this.box.w, this.box.h);
+      ctx.fillStyle = ctx.strokeStyle;
+      ctx.fillText(`[${this.conversation}]`, this.box.x, this.box.y - 10);
+      ctx.restore();
+    }
+  }
+
+
+  /**
+   * Dialogue shows speech bubbles and runs conversations.
+   * While a conversation is on, the game is in the 'talking'
+   * state: the player stands still and input only advances
+   * the conversation. Lines are typed out, advancing shows
+   * the whole line first, then goes to the next one.
+   */
+  class Dialogue {
+    game: GameEngine;
+    lines: Array<DialogueLine>; // null when no conversation is on
+    index: number;              // line being shown
+    shown: number;              // characters of the line typed so far
+    bubble: SpeechBubble;       // above the speaker of the current line
+    onEnd: () => void;
+
+    constructor(game: GameEngine){
+      this.game = game;
+      this.reset();
+    }
+
+    reset(){
+      this.lines = null;
+      this.index = 0;
+      this.shown = 0;
+      this.bubble = null;
+      this.onEnd = null;
+    }
+
+    get active(): boolean {
+      return this.lines !== null;
+    }
+
+    get line(): DialogueLine {
+      return this.active ? this.lines[this.index] : null;
+    }
+
+    get text(): string {
+      return this.line.text.slice(0, Math.floor(this.shown));
+    }
+
+    get lineDone(): boolean {
+      return this.shown >= this.line.text.length;
+    }
+
+    speakerName(speaker: string): string {
+      if(speaker === 'player') return PLAYER_NAME;
+      let setup = ENEMY_TYPES[speaker];
+      return setup && setup.boss || speaker;
+    }
+
+    findSpeaker(speaker: string): Player | Enemy {
+      /**
+       * The player, or the living enemy of the given type
+       * nearest to it. null if there is none in the level.
+       */
+      let player = this.game.player;
+      if(speaker === 'player') return player;
+      let enemies = this.game.world.all('enemy').filter(enemy => enemy.type === speaker && enemy.alive);
+      if(!player) return enemies[0] || null;
+      return enemies.reduce((nearest, enemy) =>
+        !nearest || enemy.distanceTo(player) < nearest.distanceTo(player) ? enemy : nearest, null);
+    }
+
+    say(speaker: Player | Enemy, bubble: string, duration: number = BUBBLE_TIME): SpeechBubble {
+      /**
+       * Show a speech bubble above the speaker. A bubble
+       * it already has is replaced.
+       */
+      this.game.world.removeWhere('bubble', other => other.speaker === speaker);
+      return this.game.world.add(new SpeechBubble(this.game, speaker, bubble, duration));
+    }
+
+    start(conversation: string | Array<DialogueLine>, onEnd: () => void = null): boolean {
+      /**
+       * Start a conversation, by CONVERSATIONS id or given lines.
+       * Only starts during normal play, returns false otherwise.
+       */
+      let lines = typeof conversation === 'string' ? CONVERSATIONS[conversation] : conversation;
+      if(!lines || lines.length === 0){
+        throw new Error(`Unknown conversation "${conversation}"`);
+      }
+      if(this.game.state !== 'playing') return false;
+      this.lines = lines;
+      this.onEnd = onEnd;
+      this.game.state = 'talking';
+      this.game.player.halt();
+      this.showLine(0);
+      return true;
+    }
+
+    showLine(index: number){
+      this.index = index;
+      this.shown = 0;
+      if(this.bubble) this.bubble.close();
+      this.bubble = null;
+      let line = this.line;
+      let speaker = this.findSpeaker(line.speaker);
+      if(line.bubble && speaker){
+        this.bubble = this.say(speaker, line.bubble, Infinity);
+      }
+    }
+
+    advance(){
+      if(!this.active) return;
+      if(!this.lineDone){
+        this.shown = this.line.text.length;
+      } else if(this.index < this.lines.length - 1){
+        this.showLine(this.index + 1);
+      } else {
+        this.end();
+      }
+    }
+
+    end(){
+      if(this.bubble) this.bubble.close();
+      let onEnd = this.onEnd;
+      this.reset();
+      if(this.game.state === 'talking') this.game.state = 'playing';
+      if(onEnd) onEnd();
+    }
+
+    update(stepTime: number){
+      if(!this.active || this.lineDone) return;
+      this.shown = Math.min(this.line.text.length, this.shown + TYPEWRITER_SPEED * stepTime / ONE_SECOND);
+    }
+  }
+
+
+  function wrapText(ctx: CanvasRenderingContext2D, text: string, width: number): Array<string> {
+    /**
+     * Split text into lines no wider than width (as measured
+     * with the context's current font). Words are never split.
+     */
+    let lines: Array<string> = [];
+    let line = '';
+    for(let word of text.split(' ')){
+      let candidate = line ? `${line} ${word}` : word;
+      if(line && ctx.measureText(candidate).width > width){
+        lines.push(line);
+        line = word;
+      } else {
+        line = candidate;
+      }
+    }
+    lines.push(line);
+    return lines;
+  }
+
+
+  /**
+   * Bottom middle: the text box of the conversation going on.
+   */
+  class DialogueBox implements HudElement {
+    anchor: HudAnchor = 'bottom';
+    offset = { x: 0, y: 20 };
+    width = 640;
+    height = 130;
+    game: GameEngine;
+
+    constructor(game: GameEngine){
+      this.game = game;
+    }
+
+    visible(): boolean {
+      return this.game.dialogue.active;
+    }
+
+    draw(ctx: CanvasRenderingContext2D){
+      let dialogue = this.game.dialogue;
+      let padding = 16;
+      ctx.fillStyle = 'rgba(0, 0, 0, 0.75)';
+      ctx.fillRect(0, 0, this.width, this.height);
+      ctx.strokeStyle = 'white';
+      ctx.lineWidth = 2;
+      ctx.strokeRect(0, 0, this.width, this.height);
+      ctx.textBaseline = 'top';
+      ctx.font = 'bold 20px Roboto';
+      ctx.fillStyle = 'gold';
+      ctx.fillText(dialogue.speakerName(dialogue.line.speaker), padding, padding);
+      ctx.font = '20px Roboto';
+      ctx.fillStyle = 'white';
+      /**
+       * The whole line is wrapped first so words don't
+       * jump to the next line while being typed.
+       */
+      let left = Math.floor(dialogue.shown);
+      wrapText(ctx, dialogue.line.text, this.width - padding * 2).forEach((row, i) => {
+        ctx.fillText(row.slice(0, left), padding, padding + 30 + i * 26);
+        left = Math.max(0, left - row.length - 1);
+      });
+      if(dialogue.lineDone){
+        ctx.textAlign = 'right';
+        ctx.fillText('▼', this.width - padding, this.height - padding - 20);
+      }
+    }
+  }
+
+
+  /**
+   * Tiles with a gameplay meaning. gids are not stable between maps
+   * (each map picks its own firstgid per tileset), so tiles are
+   * identified by tileset name + local id instead.
+   */
+  const TILE_FLAGS: {[flag: string]: TileFlag} = {
+    collision: { tileset: 'Objects', id: 2 },
+    door: { tileset: 'Objects', id: 0 },
+    box: { tileset: 'Objects', id: 1 },
+    platform: { tileset: 'Objects', id: 3 },
+    slopeUpRight: { tileset: 'Objects', id: 4 },
+    slopeUpLeft: { tileset: 'Objects', id: 5 },
+    slopeUpRightLow: { tileset: 'Objects', id: 6 },
+    slopeUpRightHigh: { tileset: 'Objects', id: 7 },
+    slopeUpLeftHigh: { tileset: 'Objects', id: 8 },
+    slopeUpLeftLow: { tileset: 'Objects', id: 9 },
+    spawn: { tileset: 'Decorations', id: 19 }
+  };
+
+  /**
+   * Floors of the slope tiles. 45° slopes take one tile,
+   * 22.5° slopes are a low and a high tile next to each other.
+   */
+  const SLOPE_TILES: {[flag: string]: SlopeSetup} = {
+    slopeUpRight: { left: 0, right: 1 },
+    slopeUpLeft: { left: 1, right: 0 },
+    slopeUpRightLow: { left: 0, right: 0.5 },
+    slopeUpRightHigh: { left: 0.5, right: 1 },
+    slopeUpLeftHigh: { left: 1, right: 0.5 },
+    slopeUpLeftLow: { left: 0.5, right: 0 }
+  };
+
+
+  /**
+   * A LevelMap is the typed version of a Tiled map.
+   * It knows nothing about the canvas; positions are in map pixels.
+   */
+  class LevelMap {
+    width: number;
+    height: number;
+    tileWidth: number;
+    tileHeight: number;
+    tilesets: Array<TilesetRef>;
+    layers: Array<TileLayer>;
+    objectGroups: Array<ObjectLayer>;
+    background: string;
+
+    constructor(data: LevelData){
+      this.width = data.width;
+      this.height = data.height;
+      this.tileWidth = data.tileWidth;
+      this.tileHeight = data.tileHeight;
+      // Highest firstgid first, so the first match in flagOf() wins.
+      this.tilesets = [...data.tilesets].sort((a, b) => b.firstgid - a.firstgid);
+      this.layers = data.layers;
+      this.objectGroups = data.objectGroups;
+      this.background = data.background;
+    }
+
+    get pixelWidth(): number {
+      return this.width * this.tileWidth;
+    }
+
+    get pixelHeight(): number {
+      return this.height * this.tileHeight;
+    }
+
+    flagOf(gid: number): string {
+      /**
+       * Translate a gid into one of the TILE_FLAGS names.
+       * Returns an empty string for empty or purely decorative tiles.
+       */
+      gid = gid & 0x1FFFFFFF; // strip Tiled's flip flags
+      if(!gid) return '';
+      let tileset = this.tilesets.find(t => gid >= t.firstgid);
+      if(!tileset) return '';
+      let id = gid - tileset.firstgid;
+      for(let flag in TILE_FLAGS){
+        if(TILE_FLAGS[flag].tileset === tileset.name && TILE_FLAGS[flag].id === id){
+          return flag;
+        }
+      }
+      return '';
+    }
+
+    gidOf(flag: string): number {
+      /**
+       * The other way round: the gid of a TILE_FLAGS tile in this
+       * map, 0 if the map doesn't use its tileset.
+       */
+      let tile = TILE_FLAGS[flag];
+      let tileset = this.tilesets.find(t => t.name === tile.tileset);
+      return tileset ? tileset.firstgid + tile.id : 0;
+    }
+  }
+
+
+  /**
+   * TiledMapLoader reads .tmx maps (and the .tsx tilesets they
+   * reference) exported by Tiled. Only CSV encoded layers are supported.
+   */
+  class TiledMapLoader {
+    parser: DOMParser;
+
+    constructor(){
+      this.parser = new DOMParser();
+    }
+
+    async load(source: LevelSource): Promise<LevelMap> {
+      let mapUrl = new URL(source.map, document.baseURI).href;
+      let doc = await this.fetchXML(mapUrl);
+      let map = doc.documentElement;
+
+      let tilesets: Array<TilesetRef> = [];
+      for(let el of Array.from(map.getElementsByTagName('tileset'))){
+        tilesets.push(await this.parseTileset(el, mapUrl));
+      }
+
+      return new LevelMap({
+        width: Number(map.getAttribute('width')),
+        height: Number(map.getAttribute('height')),
+        tileWidth: Number(map.getAttribute('tilewidth')),
+        tileHeight: Number(map.getAttribute('tileheight')),
+        tilesets,
+        layers: Array.from(map.getElementsByTagName('layer')).map(l => this.parseLayer(l)),
+        objectGroups: Array.from(map.getElementsByTagName('objectgroup')).map(g => this.parseObjectGroup(g)),
+        background: source.background
+      });
+    }
+
+    async fetchXML(url: string): Promise<Document> {
+      let response = await fetch(url);
+      if(!response.ok){
+        throw new Error(`Could not load ${url} (${response.status})`);
+      }
+      let doc = this.parser.parseFromString(await response.text(), 'application/xml');
+      if(doc.getElementsByTagName('parsererror').length){
+        throw new Error(`Could not parse ${url}`);
+      }
+      return doc;
+    }
+
+    async parseTileset(el: Element, mapUrl: string): Promise<TilesetRef> {
+      /**
+       * Tilesets are usually external (.tsx), in which case the map only
+       * holds the firstgid and the path relative to the map file.
+       */
+      let firstgid = Number(el.getAttribute('firstgid'));
+      let source = el.getAttribute('source');
+      if(source){
+        let doc = await this.fetchXML(new URL(source, mapUrl).href);
+        el = doc.documentElement;
+      }
+      return {
+        firstgid,
+        name: el.getAttribute('name'),
+        tileCount: Number(el.getAttribute('tilecount')),
+        source: source || undefined
+      };
+    }
+
+    parseLayer(el: Element): TileLayer {
+      let width = Number(el.getAttribute('width'));
+      let height = Number(el.getAttribute('height'));
+      let data = el.getElementsByTagName('data')[0];
+      if(data.getAttribute('encoding') !== 'csv'){
+        throw new Error(`Layer "${el.getAttribute('name')}" must be CSV encoded`);
+      }
+      let gids = data.textContent.trim().split(',').map(Number);
+      let rows: Array<Array<number>> = [];
+      for(let row = 0; row < height; row++){
+        rows.push(gids.slice(row * width, (row + 1) * width));
+      }
+      return { name: el.getAttribute('name'), width, height, data: rows };
+    }
+
+    parseProperties(el: Element): {[name: string]: string} {
+      let properties: {[name: string]: string} = {};
+      for(let property of Array.from(el.getElementsByTagName('property'))){
+        properties[property.getAttribute('name')] = property.getAttribute('value');
+      }
+      return properties;
+    }
+
+    parseObjectGroup(el: Element): ObjectLayer {
+      let objects = Array.from(el.getElementsByTagName('object')).map(o => ({
+        id: Number(o.getAttribute('id')),
+        name: o.getAttribute('name') || '',
+        // Tiled 1.9 saves the object class as "class", other versions as "type"
+        type: o.getAttribute('type') || o.getAttribute('class') || '',
+        gid: Number(o.getAttribute('gid') || 0),
+        x: Number(o.getAttribute('x')),
+        y: Number(o.getAttribute('y')),
+        width: Number(o.getAttribute('width') || 0),
+        height: Number(o.getAttribute('height') || 0),
+        properties: this.parseProperties(o)
+      }));
+      return { name: el.getAttribute('name'), objects };
+    }
+  }
+
+
+  /**
+   * What the LevelEditor places. Tools either paint a TILE_FLAGS
+   * tile on the level's tile layer, or place a map object of the
+   * given class into an object group. Objects stand on the bottom
+   * of their cell, or float in its middle when centred.
+   */
+  interface EditorTool {
+    name: string
+    flag?: string
+    object?: string
+    group?: string   // object group the objects go into
+    width?: number   // map px
+    height?: number  // map px
+    centred?: boolean
+  }
+  interface GridCell {
+    col: number
+    row: number
+  }
+  interface LevelBlocks {
+    array: Array<Array<number>>
+    flags: {[flag: string]: number}
+  }
+
+  const EDITOR_TOOLS: Array<EditorTool> = [
+    { name: 'Collision', flag: 'collision' },
+    { name: 'Platform', flag: 'platform' },
+    { name: 'Slope up right', flag: 'slopeUpRight' },
+    { name: 'Slope up left', flag: 'slopeUpLeft' },
+    { name: 'Low slope up right (1/2)', flag: 'slopeUpRightLow' },
+    { name: 'Low slope up right (2/2)', flag: 'slopeUpRightHigh' },
+    { name: 'Low slope up left (1/2)', flag: 'slopeUpLeftHigh' },
+    { name: 'Low slope up left (2/2)', flag: 'slopeUpLeftLow' },
+    { name: 'Spawn place', flag: 'spawn' },
+    { name: 'Door', flag: 'door' },
+    { name: 'Pig', object: 'Pig', group: 'Enemies', width: ENEMY_TYPES.Pig.width, height: ENEMY_TYPES.Pig.height },
+    { name: 'King Pig', object: 'KingPig', group: 'Enemies', width: ENEMY_TYPES.KingPig.width, height: ENEMY_TYPES.KingPig.height },
+    { name: 'Box Pig', object: 'BoxPig', group: 'Enemies', width: ENEMY_TYPES.BoxPig.width, height: ENEMY_TYPES.BoxPig.height },
+    { name: 'Bomb Pig', object: 'BombPig', group: 'Enemies', width: ENEMY_TYPES.BombPig.width, height: ENEMY_TYPES.BombPig.height },
+    { name: 'Cannon', object: 'Cannon', group: 'Enemies', width: CANNON.width, height: CANNON.height },
+    { name: 'Crate', object: 'Box', group: 'Boxes', width: CRATE.width, height: CRATE.height },
+    { name: 'Diamond', object: 'Diamond', group: 'Collectibles', width: COLLECTIBLE_TYPES.Diamond.width, height: COLLECTIBLE_TYPES.Diamond.height, centred: true },
+    { name: 'Heart', object: 'Heart', group: 'Collectibles', width: COLLECTIBLE_TYPES.Heart.width, height: COLLECTIBLE_TYPES.Heart.height, centred: true }
+  ];
+  const EDITOR_LAYER = 'Collisions'; // tile layer tools paint on
+  const EDITOR_PAN_SPEED = 600;      // px per second
+
+
+  function escapeXml(text: string): string {
+    return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+  }
+
+  function formatBlocks(blocks: LevelBlocks): string {
+    /**
+     * Laid out like config.js, ready to paste into it.
+     */
+    let rows = blocks.array.map(cells => `    [${cells.join(', ')}]`);
+    let flags = Object.keys(blocks.flags).map(flag => `    ${flag}: ${blocks.flags[flag]}`);
+    return `blocks: {\n  array: [\n${rows.join(',\n')}\n  ],\n  flags: {\n${flags.join(',\n')}\n  }\n}\n`;
+  }
+
+
+  /**
+   * The LevelEditor changes the current LevelMap in place, on its
+   * grid. While editing the level is frozen and shown in debug mode;
+   * every change rebuilds the world from the map, and leaving the
+   * editor starts the edited level over to play-test it.
+   * The result can be exported as a Tiled map or in the blocks
+   * format of config.js.
+   */
+  class LevelEditor {
+    game: GameEngine;
+    toolIndex: number;
+    hover: GridCell;  // cell under the pointer, or null
+    painting: number; // mouse button held down: 0 places, 2 erases, -1 none
+    wasDebug: boolean;
+
+    constructor(game: GameEngine){
+      this.game = game;
+      this.toolIndex = 0;
+      this.hover = null;
+      this.painting = -1;
+      this.wasDebug = false;
+    }
+
+    get active(): boolean {
+      return this.game.state === 'editing';
+    }
+
+    get tool(): EditorTool {
+      return EDITOR_TOOLS[this.toolIndex];
+    }
+
+    toggle(){
+      if(this.active){
+        this.stop();
+      } else {
+        this.start();
+      }
+    }
+
+    start(){
+      let game = this.game;
+      if(game.state !== 'playing' || game.recorder || game.replay) return;
+      this.wasDebug = game.debug.isOn;
+      game.debug.isOn = true;
+      game.state = 'editing';
+      this.rebuild();
+    }
+
+    stop(){
+      /**
+       * Play-test: the edited level starts over from its spawn place.
+       */
+      this.painting = -1;
+      this.game.debug.isOn = this.wasDebug;
+      this.game.loadLevel(this.game.currentLevel);
+      this.game.state = 'playing';
+    }
+
+    selectTool(step: number){
+      let count = EDITOR_TOOLS.length;
+      this.toolIndex = (this.toolIndex + step % count + count) % count;
+    }
+
+    rebuild(){
+      let game = this.game;
+      game.buildLevel();
+      // Building the level empties the world, the player stays where it is
+      game.world.add(game.player);
+    }
+
+    update(stepTime: number){
+      /**
+       * Scroll around the level with the movement keys.
+       */
+      let input = this.game.inputSource;
+      let dx = (input.isHeld('moveRight') ? 1 : 0) - (input.isHeld('moveLeft') ? 1 : 0);
+      let dy = (input.isHeld('drop') ? 1 : 0) - (input.isHeld('interact') ? 1 : 0);
+      let camera = this.game.camera;
+      camera.prevPos = camera.pos;
+      camera.pos = camera.clamp(camera.pos.add(new Vector2D(dx, dy).multiply(EDITOR_PAN_SPEED * stepTime / ONE_SECOND)));
+    }
+
+    cellAt(screen: Vector2D): GridCell {
+      /**
+       * Map cell under a point on the canvas, null outside the map.
+       */
+      let level = this.game.level;
+      let point = this.game.camera.screenToWorld(screen);
+      let col = Math.floor(point.x / (level.tileWidth * this.game.xRatio));
+      let row = Math.floor(point.y / (level.tileHeight * this.game.yRatio));
+      if(col < 0 || row < 0 || col >= level.width || row >= level.height) return null;
+      return { col, row };
+    }
+
+    paint(col: number, row: number, tool: EditorTool = this.tool){
+      if(tool.flag){
+        this.setTile(col, row, tool.flag);
+      } else {
+        this.placeObject(col, row, tool);
+      }
+      this.rebuild();
+    }
+
+    erase(col: number, row: number){
+      this.clearTile(col, row);
+      this.removeObjects(col, row);
+      this.rebuild();
+    }
+
+    layer(): TileLayer {
+      /**
+       * The tile layer tools paint on, added if the map has none.
+       */
+      let level = this.game.level;
+      let layer = level.layers.find(layer => layer.name === EDITOR_LAYER);
+      if(!layer){
+        let data = Array.from({ length: level.height }, () => new Array(level.width).fill(0));
+        layer = { name: EDITOR_LAYER, width: level.width, height: level.height, data };
+        level.layers.push(layer);
+      }
+      return layer;
+    }
+
+    setTile(col: number, row: number, flag: string){
+      let level = this.game.level;
+      let gid = level.gidOf(flag);
+      if(!gid){
+        console.warn(`Level ${this.game.currentLevel} has no tileset with the "${flag}" tile`);
+        return;
+      }
+      // There's only one spawn place and one door per level
+      if(flag === 'spawn' || flag === 'door') this.clearFlag(flag);
+      this.clearTile(col, row);
+      this.layer().data[row][col] = gid;
+    }
+
+    clearTile(col: number, row: number){
+      /**
+       * Empty the cell on every layer. Only tiles that mean something
+       * to the game go, decorative ones are left alone.
+       */
+      let level = this.game.level;
+      for(let layer of level.layers){
+        if(level.flagOf(layer.data[row][col])) layer.data[row][col] = 0;
+      }
+    }
+
+    clearFlag(flag: string){
+      let level = this.game.level;
+      for(let layer of level.layers){
+        for(let cells of layer.data){
+          cells.forEach((gid, col) => {
+            if(level.flagOf(gid) === flag) cells[col] = 0;
+          });
+        }
+      }
+      for(let group of level.objectGroups){
+        group.objects = group.objects.filter(object => level.flagOf(object.gid) !== flag);
+      }
+    }
+
+    placeObject(col: number, row: number, tool: EditorTool){
+      let level = this.game.level;
+      this.removeObjects(col, row);
+      let group = level.objectGroups.find(group => group.name === tool.group);
+      if(!group){
+        group = { name: tool.group, objects: [] };
+        level.objectGroups.push(group);
+      }
+      let top = tool.centred ? (level.tileHeight - tool.height) / 2 : level.tileHeight - tool.height;
+      group.objects.push({
+        id: this.nextObjectId(),
+        name: '',
+        type: tool.object,
+        gid: 0,
+        x: col * level.tileWidth + (level.tileWidth - tool.width) / 2,
+        y: row * level.tileHeight + top,
+        width: tool.width,
+        height: tool.height,
+        properties: {}
+      });
+    }
+
+    removeObjects(col: number, row: number){
+      /**
+       * Remove the objects editor tools place whose middle is in the cell.
+       */
+      let level = this.game.level;
+      let types = EDITOR_TOOLS.filter(tool => tool.object).map(tool => tool.object);
+      for(let group of level.objectGroups){
+        group.objects = group.objects.filter(object => {
+          if(object.gid || !types.includes(object.type)) return true;
+          let x = Math.floor((object.x + object.width / 2) / level.tileWidth);
+          let y = Math.floor((object.y + object.height / 2) / level.tileHeight);
+          return x !== col || y !== row;
+        });
+      }
+    }
+
+    nextObjectId(): number {
+      let ids = this.game.level.objectGroups.map(group => group.objects.map(object => object.id));
+      return Math.max(0, ...[].concat(...ids)) + 1;
+    }
+
+    blocks(): LevelBlocks {
+      /**
+       * The level's gameplay tiles in the blocks format of
+       * config.js: one grid of gids and the gid of each flag used.
+       */
+      let level = this.game.level;
+      let array = Array.from({ length: level.height }, () => new Array(level.width).fill(0));
+      let flags: {[flag: string]: number} = {};
+      for(let layer of level.layers){
+        layer.data.forEach((cells, row) => cells.forEach((gid, col) => {
+          let flag = level.flagOf(gid);
+          if(!flag) return;
+          array[row][col] = gid;
+          flags[flag] = gid;
+        }));
+      }
+      return { array, flags };
+    }
+
+    exportBlocks(download: boolean = true): string {
+      let text = formatBlocks(this.blocks());
+      if(download) this.game.downloadFile(`level${this.game.currentLevel}-blocks.js`, text, 'text/javascript');
+      return text;
+    }
+
+    exportTmx(download: boolean = true): string {
+      /**
+       * The LevelMap as a Tiled map. Tilesets that came from .tsx
+       * files point back to them, so save it next to the other maps.
+       */
+      let level = this.game.level;
+      let layerId = 1;
+      let lines = [
+        '<?xml version="1.0" encoding="UTF-8"?>',
+        `<map version="1.10" tiledversion="1.10.2" orientation="orthogonal" renderorder="right-down" ` +
+          `width="${level.width}" height="${level.height}" tilewidth="${level.tileWidth}" tileheight="${level.tileHeight}" ` +
+          `infinite="0" nextlayerid="${level.layers.length + level.objectGroups.length + 1}" nextobjectid="${this.nextObjectId()}">`
+      ];
+      for(let tileset of [...level.tilesets].reverse()){
+        lines.push(tileset.source
+          ? ` <tileset firstgid="${tileset.firstgid}" source="${escapeXml(tileset.source)}"/>`
+          : ` <tileset firstgid="${tileset.firstgid}" name="${escapeXml(tileset.name)}" tilecount="${tileset.tileCount}"/>`);
+      }
+      for(let layer of level.layers){
+        lines.push(` <layer id="${layerId++}" name="${escapeXml(layer.name)}" width="${layer.width}" height="${layer.height}">`);
+        lines.push('  <data encoding="csv">');
+        lines.push(layer.data.map(cells => cells.join(',')).join(',\n'));
+        lines.push('</data>', ' </layer>');
+      }
+      for(let group of level.objectGroups){
+        lines.push(` <objectgroup id="${layerId++}" name="${escapeXml(group.name)}">`);
+        for(let object of group.objects){
+          let attributes = `id="${object.id}"`;
+          if(object.name) attributes += ` name="${escapeXml(object.name)}"`;
+          if(object.type) attributes += ` type="${escapeXml(object.type)}"`;
+          if(object.gid) attributes += ` gid="${object.gid}"`;
+          attributes += ` x="${object.x}" y="${object.y}" width="${object.width}" height="${object.height}"`;
+          let properties = Object.keys(object.properties || {});
+          if(!properties.length){
+            lines.push(`  <object ${attributes}/>`);
+            continue;
+          }
+          lines.push(`  <object ${attributes}>`, '   <properties>');
+          for(let name of properties){
+            lines.push(`    <property name="${escapeXml(name)}" value="${escapeXml(object.properties[name])}"/>`);
+          }
+          lines.push('   </properties>', '  </object>');
+        }
+        lines.push(' </objectgroup>');
+      }
+      lines.push('</map>', '');
+      let text = lines.join('\n');
+      if(download) this.game.downloadFile(`Level ${this.game.currentLevel}.tmx`, text, 'application/xml');
+      return text;
+    }
+
+    attach(canvas: HTMLCanvasElement){
+      /**
+       * Mouse controls, only listened to while editing:
+       * left button places (drag to paint tiles), right button
+       * erases, the wheel changes the tool. The prevTool and
+       * nextTool actions change it too (see GameEngine.handleAction).
+       */
+      canvas.addEventListener('pointerdown', e => {
+        if(!this.active) return;
+        this.painting = e.button;
+        this.pointer(canvas, e, true);
+      });
+      canvas.addEventListener('pointermove', e => {
+        if(this.active) this.pointer(canvas, e, false);
+      });
+      window.addEventListener('pointerup', () => this.painting = -1);
+      canvas.addEventListener('contextmenu', e => {
+        if(this.active) e.preventDefault();
+      });
+      canvas.addEventListener('wheel', e => {
+        if(!this.active) return;
+        e.preventDefault();
+        this.selectTool(Math.sign(e.deltaY));
+      }, { passive: false });
+    }
+
+    pointer(canvas: HTMLCanvasElement, e: PointerEvent, pressed: boolean){
+      let cell = this.cellAt(canvasPoint(canvas, e));
+      let moved = !cell || !this.hover || cell.col !== this.hover.col || cell.row !== this.hover.row;
+      this.hover = cell;
+      if(!cell || this.painting === -1) return;
+      // Dragging paints tiles and erases; objects are placed one click at a time
+      if(!pressed && (!moved || (this.painting === 0 && !this.tool.flag))) return;
+      if(this.painting === 0){
+        this.paint(cell.col, cell.row);
+      } else if(this.painting === 2){
+        this.erase(cell.col, cell.row);
+      }
+    }
+
+    draw(ctx: CanvasRenderingContext2D){
+      /**
+       * The grid, and the cell under the pointer.
+       */
+      let level = this.game.level;
+      let w = level.tileWidth * this.game.xRatio;
+      let h = level.tileHeight * this.game.yRatio;
+      ctx.save();
+      ctx.strokeStyle = 'rgba(255, 255, 255, 0.2)';
+      ctx.beginPath();
+      for(let col = 0; col <= level.width; col++){
+        ctx.moveTo(col * w, 0);
+        ctx.lineTo(col * w, level.height * h);
+      }
+      for(let row = 0; row <= level.height; row++){
+        ctx.moveTo(0, row * h);
+        ctx.lineTo(level.width * w, row * h);
+      }
+      ctx.stroke();
+      if(this.hover){
+        ctx.strokeStyle = 'yellow';
+        ctx.lineWidth = 2;
+        ctx.strokeRect(this.hover.col * w, this.hover.row * h, w, h);
+      }
+      ctx.restore();
+    }
+  }
+
+
+  class EditorPanel implements HudElement {
+    anchor: HudAnchor = 'bottomLeft';
+    offset = { x: 10, y: 10 };
+    width = 420;
+    height = 84;
+    game: GameEngine;
+
+    constructor(game: GameEngine){
+      this.game = game;
+    }
+
+    visible(): boolean {
+      return this.game.editor.active;
+    }
+
+    draw(ctx: CanvasRenderingContext2D){
+      ctx.fillStyle = 'rgba(0, 0, 0, 0.7)';
+      ctx.fillRect(0, 0, this.width, this.height);
+      ctx.fillStyle = 'white';
+      ctx.textAlign = 'left';
+      ctx.textBaseline = 'top';
+      ctx.font = '18px Roboto';
+      ctx.fillText(`Editing - ${this.game.editor.tool.name}`, 10, 8);
+      ctx.font = '14px Roboto';
+      ctx.fillText('Left click: place   Right click: erase   Wheel or [ ]: tool', 10, 36);
+      ctx.fillText('Arrows: scroll   E: play-test', 10, 58);
+    }
+  }
+
+
+  /**
+   * How the player moves, to check that levels can be played.
+   * Map px; the game uses the same numbers for PlayerOptions
+   * and GameEngineOptions.gravity.
+   */
+  interface JumpSetup {
+    width: number
+    height: number
+    jumpFactor: number  // px per second, negative is up
+    speedFactor: number // px per second
+    gravity: number     // px per second per second
+  }
+  const DEFAULT_JUMP: JumpSetup = { width: 50, height: 50, jumpFactor: -1200, speedFactor: 300, gravity: 3600 };
+
+  const VERIFY_DELAYS = [0, 10, 20];                  // steps into a jump before a direction is held
+  const VERIFY_HOLDS = [6, 12, 18, 24, 30, Infinity]; // steps the direction is held for
+  const VERIFY_MAX_STEPS = 240;                       // longer in the air than this doesn't count
+
+  /**
+   * Proves a level in the blocks format can be finished: the door
+   * must be reachable from where the player lands after spawning.
+   * Moves are simulated the way actors move (along x, then gravity,
+   * then along y, one TIME_STEP at a time) on the tile grid:
+   * walking, dropping through platforms and jumps with the direction
+   * held for a while, starting from either side or the middle of a
+   * cell. Slope tiles count as full blocks.
+   */
+  class LevelVerifier {
+    jump: JumpSetup;
+    tileSize: number; // map px
+    blocks: LevelBlocks;
+    flags: {[gid: number]: string};
+
+    constructor(jump: JumpSetup = DEFAULT_JUMP, tileSize: number = 64){
+      this.jump = jump;
+      this.tileSize = tileSize;
+    }
+
+    route(blocks: LevelBlocks): Array<GridCell> {
+      /**
+       * The cells the player stands in on the way from the spawn
+       * place to the door, or null if there is no way.
+       */
+      this.blocks = blocks;
+      this.flags = {};
+      for(let flag in blocks.flags){
+        this.flags[blocks.flags[flag]] = flag;
+      }
+      let spawn = this.find('spawn');
+      let door = this.find('door');
+      if(!spawn || !door) return null;
+      // The player is put on the spawn place and falls from there (see spawnPlayer)
+      let start = this.simulate(spawn.col * this.tileSize + this.jump.width / 2, spawn.row * this.tileSize, false, 0, 0, 0, -1);
+      if(!start) return null;
+      let key = (cell: GridCell) => `${cell.col},${cell.row}`;
+      let from = new Map<string, GridCell>([[key(start), null]]);
+      let queue = [start];
+      while(queue.length){
+        let cell = queue.shift();
+        if(cell.col === door.col && cell.row === door.row){
+          let route = [];
+          for(let at = cell; at; at = from.get(key(at))) route.unshift(at);
+          return route;
+        }
+        for(let next of this.moves(cell)){
+          if(from.has(key(next))) continue;
+          from.set(key(next), cell);
+          queue.push(next);
+        }
+      }
+      return null;
+    }
+
+    find(flag: string): GridCell {
+      let gid = this.blocks.flags[flag];
+      for(let row = 0; row < this.blocks.array.length; row++){
+        let col = this.blocks.array[row].indexOf(gid);
+        if(gid && col !== -1) return { col, row };
+      }
+      return null;
+    }
+
+    flagAt(col: number, row: number): string {
+      /**
+       * The sides and top of the level are walls (see checkLevelBounds),
+       * below it there is nothing.
+       */
+      let rows = this.blocks.array;
+      if(row >= rows.length) return '';
+      if(row < 0 || col < 0 || col >= rows[0].length) return 'collision';
+      return this.flags[rows[row][col]] || '';
+    }
+
+    solid(col: number, row: number): boolean {
+      let flag = this.flagAt(col, row);
+      return flag === 'collision' || !!SLOPE_TILES[flag];
+    }
+
+    standable(col: number, row: number): boolean {
+      return !this.solid(col, row) && (this.solid(col, row + 1) || this.flagAt(col, row + 1) === 'platform');
+    }
+
+    moves(cell: GridCell): Array<GridCell> {
+      /**
+       * Every cell the player can get to from this one in one move.
+       */
+      let size = this.tileSize;
+      let { width, height } = this.jump;
+      let y = (cell.row + 1) * size - height - 0.01;
+      let lefts = [cell.col * size + 0.01, cell.col * size + (size - width) / 2, (cell.col + 1) * size - width - 0.01];
+      let cells: Array<GridCell> = [];
+      for(let dir of [-1, 1]){
+        if(this.standable(cell.col + dir, cell.row)){
+          cells.push({ col: cell.col + dir, row: cell.row });
+        } else if(!this.solid(cell.col + dir, cell.row)){
+          // Walk off the ledge
+          let x = dir < 0 ? lefts[0] : lefts[2];
+          for(let hold of VERIFY_HOLDS) cells.push(this.simulate(x, y, false, dir, 0, hold, -1));
+        }
+      }
+      if(this.flagAt(cell.col, cell.row + 1) === 'platform'){
+        cells.push(this.simulate(lefts[1], y, false, 0, 0, 0, cell.row + 1));
+      }
+      for(let x of lefts){
+        cells.push(this.simulate(x, y, true, 0, 0, 0, -1));
+        for(let dir of [-1, 1]){
+          for(let delay of VERIFY_DELAYS){
+            for(let hold of VERIFY_HOLDS) cells.push(this.simulate(x, y, true, dir, delay, hold, -1));
+          }
+        }
+      }
+      return cells.filter(next => next && (next.col !== cell.col || next.row !== cell.row));
+    }
+
+    simulate(x: number, y: number, jump: boolean, dir: number, delay: number, hold: number, dropRow: number): GridCell {
+      /**
+       * One move: the direction (-1, 0 or 1) is held from step delay
+       * for hold steps. Platforms on dropRow are fallen through.
+       * Returns the cell the player lands in, null if it falls out
+       * of the level or is still in the air after VERIFY_MAX_STEPS.
+       */
+      let size = this.tileSize;
+      let { width, height, jumpFactor, speedFactor, gravity } = this.jump;
+      let dt = TIME_STEP / ONE_SECOND;
+      let vy = jump ? jumpFactor : 0;
+      let inAir = jump;
+      for(let step = 0; step < VERIFY_MAX_STEPS; step++){
+        let held = step >= delay && step < delay + hold;
+        x = this.moveX(x, y, held ? dir * speedFactor * dt : 0);
+        vy += gravity * dt;
+        let dy = vy * dt;
+        let cols = [Math.floor(x / size), Math.floor((x + width - 0.001) / size)];
+        if(dy >= 0){
+          let bottom = y + height;
+          let floor: number = null;
+          for(let row = Math.floor(bottom / size); row <= Math.floor((bottom + dy) / size) && floor === null; row++){
+            if(row * size < bottom - 0.02) continue;
+            if(cols.some(col => this.solid(col, row) || (row !== dropRow && this.flagAt(col, row) === 'platform'))){
+              floor = row;
+            }
+          }
+          if(floor === null){
+            y += dy;
+            inAir = true;
+            if(y > this.blocks.array.length * size) return null;
+            continue;
+          }
+          y = floor * size - height - 0.01;
+          if(!inAir) continue;
+          // Landed, in whichever cell under the player has a floor
+          let row = floor - 1;
+          let centre = Math.floor((x + width / 2) / size);
+          let col = [centre, ...cols].find(col => this.standable(col, row));
+          return col === undefined ? null : { col, row };
+        }
+        let ceiling: number = null;
+        for(let row = Math.floor(y / size) - 1; row >= Math.floor((y + dy) / size) && ceiling === null; row--){
+          if(cols.some(col => this.solid(col, row))) ceiling = row;
+        }
+        if(ceiling === null){
+          y += dy;
+        } else {
+          y = (ceiling + 1) * size + 0.01;
+          vy = 0;
+        }
+      }
+      return null;
+    }
+
+    moveX(x: number, y: number, dx: number): number {
+      /**
+       * Stop at the first wall, dx is never more than a tile.
+       */
+      if(dx === 0) return x;
+      let size = this.tileSize;
+      let { width, height } = this.jump;
+      let newX = x + dx;
+      let col = Math.floor((dx > 0 ? newX + width : newX) / size);
+      for(let row = Math.floor(y / size); row <= Math.floor((y + height - 0.001) / size); row++){
+        if(!this.solid(col, row)) continue;
+        return dx > 0 ? col * size - width - 0.01 : (col + 1) * size + 0.01;
+      }
+      return newX;
+    }
+  }
+
+
+  /**
+   * options  - size in tiles, at least one screen (VIEW_TILES)
+   * jump     - how the player moves, to verify the levels
+   */
+  interface GeneratorOptions {
+    width?: number
+    height?: number
+    jump?: JumpSetup
+  }
+  /**
+   * In tiles: the room is open from column left to right and
+   * from row top down to the row above floor.
+   */
+  interface GeneratedRoom {
+    left: number
+    right: number
+    top: number
+    floor: number
+  }
+  interface GeneratedLevel {
+    seed: number
+    attempts: number        // layouts made before one could be played
+    blocks: LevelBlocks
+    route: Array<GridCell>  // see LevelVerifier.route()
+  }
+
+  /**
+   * gids of the generated tiles. They are the ones config.js
+   * and the Level 1 and 2 maps use (Main.tsx at 1,
+   * Decorations.tsx at 248 and Misc.tsx at 290).
+   */
+  const GENERATOR_GIDS: {[flag: string]: number} = { collision: 292, platform: 293, spawn: 267, door: 290 };
+  const GENERATOR_ATTEMPTS = 50;
+  const ROOM_WIDTH = { min: 4, max: 8 };
+  const ROOM_HEIGHT = { min: 3, max: 5 };
+  const MAX_FLOOR_STEP = 3;  // tiles between the floors of rooms next to each other
+  const PLATFORM_CHANCE = 0.5;
+  const PIT_CHANCE = 0.4;
+  const MAX_PIT_WIDTH = 3;   // tiles
+
+  /**
+   * Makes levels in the blocks format of config.js: a row of rooms,
+   * joined by openings in the walls between them, with platforms
+   * and pits. The player spawns in the first room and the door is
+   * in the last. The same seed always gives the same level, and
+   * every level is checked with a LevelVerifier; layouts that
+   * can't be finished are thrown away and another one is made.
+   */
+  class LevelGenerator {
+    width: number;  // tiles
+    height: number;
+    verifier: LevelVerifier;
+
+    constructor(options: GeneratorOptions = {}){
+      this.width = Math.max(VIEW_TILES.x, options.width || 0);
+      this.height = Math.max(VIEW_TILES.y, options.height || 0);
+      this.verifier = new LevelVerifier(options.jump);
+    }
+
+    generate(seed: number): GeneratedLevel {
+      let random = new Random(seed);
+      for(let attempt = 1; attempt <= GENERATOR_ATTEMPTS; attempt++){
+        let blocks = this.layout(random);
+        let route = this.verifier.route(blocks);
+        if(route) return { seed, attempts: attempt, blocks, route };
+      }
+      throw new Error(`No playable level found for seed ${seed} in ${GENERATOR_ATTEMPTS} attempts`);
+    }
+
+    rooms(random: Random): Array<GeneratedRoom> {
+      /**
+       * Left to right with a wall column between rooms. Each
+       * floor is at most MAX_FLOOR_STEP away from the last one,
+       * and rooms next to each other share at least the two rows
+       * above the higher floor, where the opening goes.
+       */
+      let rooms: Array<GeneratedRoom> = [];
+      let lowest = this.height - 2;
+      let highest = ROOM_HEIGHT.min + 1;
+      let floor = random.int(highest, lowest);
+      let left = 1;
+      while(left < this.width - 1){
+        let width = random.int(ROOM_WIDTH.min, ROOM_WIDTH.max);
+        // Too little left for another room, this one takes it
+        if(this.width - 1 - (left + width) < ROOM_WIDTH.min + 1) width = this.width - 1 - left;
+        let last = rooms[rooms.length - 1];
+        if(last){
+          floor = Math.max(highest, Math.min(lowest, last.floor + random.int(-MAX_FLOOR_STEP, MAX_FLOOR_STEP)));
+        }
+        let room = { left, right: left + width - 1, top: floor - random.int(ROOM_HEIGHT.min, ROOM_HEIGHT.max), floor };
+        room.top = Math.max(1, room.top);
+        if(last){
+          let opening = Math.min(last.floor, floor) - 2;
+          last.top = Math.min(last.top, opening);
+          room.top = Math.min(room.top, opening);
+        }
+        rooms.push(room);
+        left = room.right + 2;
+      }
+      return rooms;
+    }
+
+    layout(random: Random): LevelBlocks {
+      let open = Array.from({ length: this.height }, () => new Array(this.width).fill(false));
+      let array = Array.from({ length: this.height }, () => new Array(this.width).fill(0));
+      let flags: {[flag: string]: number} = { collision: GENERATOR_GIDS.collision };
+      let rooms = this.rooms(random);
+      let first = rooms[0];
+      let last = rooms[rooms.length - 1];
+      let spawn = { col: Math.min(first.left + 1, first.right), row: first.floor - 1 };
+      let door = { col: Math.max(last.right - 1, last.left), row: last.floor - 1 };
+      rooms.forEach((room, i) => {
+        for(let row = room.top; row < room.floor; row++){
+          for(let col = room.left; col <= room.right; col++) open[row][col] = true;
+        }
+        if(i > 0){
+          let opening = Math.min(rooms[i - 1].floor, room.floor);
+          open[opening - 2][room.left - 1] = true;
+          open[opening - 1][room.left - 1] = true;
+        }
+        // A pit down to the bottom of the level, away from the walls, spawn and door
+        let width = random.int(1, MAX_PIT_WIDTH);
+        let start = random.int(room.left + 1, room.right - width);
+        let pit = Array.from({ length: width }, (_, i) => start + i);
+        if(random.next() < PIT_CHANCE && room.right - room.left >= width + 2 &&
+          !pit.includes(spawn.col) && !pit.includes(door.col)){
+          for(let col of pit){
+            for(let row = room.floor; row < this.height; row++) open[row][col] = true;
+          }
+        }
+      });
+      // Walls are the closed cells next to open ones, the rest stays empty
+      for(let row = 0; row < this.height; row++){
+        for(let col = 0; col < this.width; col++){
+          if(open[row][col]) continue;
+          let wall = false;
+          for(let y = row - 1; y <= row + 1; y++){
+            for(let x = col - 1; x <= col + 1; x++){
+              if(open[y] && open[y][x]) wall = true;
+            }
+          }
+          if(wall) array[row][col] = GENERATOR_GIDS.collision;
+        }
+      }
+      // A platform in rooms tall enough to have one above the player's head
+      for(let room of rooms){
+        if(room.floor - room.top < 4 || random.next() >= PLATFORM_CHANCE) continue;
+        let row = room.floor - random.int(2, 3);
+        let width = random.int(2, Math.min(4, room.right - room.left));
+        let start = random.int(room.left, room.right - width + 1);
+        for(let col = start; col < start + width; col++){
+          // The door is taller than its tile
+          if(col !== door.col) array[row][col] = GENERATOR_GIDS.platform;
+        }
+        flags.platform = GENERATOR_GIDS.platform;
+      }
+      array[spawn.row][spawn.col] = GENERATOR_GIDS.spawn;
+      array[door.row][door.col] = GENERATOR_GIDS.door;
+      flags.spawn = GENERATOR_GIDS.spawn;
+      flags.door = GENERATOR_GIDS.door;
+      return { array, flags };
+    }
+  }
+
+
+  /**
+   * Pausing, stepping and speed of the simulation, see GameEngine.step().
+   * Both the debug tools and replays have their own.
+   */
+  interface Playback {
+    paused: boolean
+    stepsQueued: number   // single steps requested while paused
+    speed: number         // time scale, 1 is real time
+    speeds: Array<number> // what speed can be set to, slowest first
+  }
+
+  interface FrameStats {
+    min: number // ms
+    avg: number
+    max: number
+    fps: number
+  }
+
+  const DEBUG_SPEEDS = [0.25, 0.5, 1, 1.5, 2];
+  const FRAME_HISTORY = 120;       // frames kept for the frame time stats
+  const VELOCITY_ARROW_TIME = 0.2; // s, arrows point where the actor will be after this long
+  const PICK_RADIUS = 12;          // px around reference points that still selects them
+
+  function canvasPoint(canvas: HTMLCanvasElement, e: MouseEvent): Vector2D {
+    /**
+     * The pointer position in canvas px; the canvas may
+     * be shown bigger or smaller than its own size.
+     */
+    let rect = canvas.getBoundingClientRect();
+    return new Vector2D(
+      (e.clientX - rect.left) * canvas.width / rect.width,
+      (e.clientY - rect.top) * canvas.height / rect.height
+    );
+  }
+
+  /**
+   * [Debug mode]
+   * What debug mode adds on top of the boxes entities draw themselves:
+   * pause, frame stepping and slow motion, frame time stats, velocity
+   * arrows, collision contacts and an inspector for the entity clicked on.
+   * Pausing, stepping and speed are the playback actions, they control
+   * the debug tools while debug mode is on and no replay is playing.
+   */
+  class DebugTools implements Playback {
+    game: GameEngine;
+    isOn: boolean;
+    paused: boolean;
+    stepsQueued: number;
+    speed: number;
+    speeds = DEBUG_SPEEDS;
+    frameTimes: Array<number>; // ms, oldest first
+    selected: AnyEntity;       // shown by the inspector
+
+    constructor(game: GameEngine){
+      this.game = game;
+      this.isOn = true;
+      this.paused = false;
+      this.stepsQueued = 0;
+      this.speed = 1;
+      this.frameTimes = [];
+      this.selected = null;
+    }
+
+    toggle(){
+      /**
+       * Turning debug mode off also lets the game run
+       * normally again, nothing shows it is paused any more.
+       */
+      this.isOn = !this.isOn;
+      if(this.isOn) return;
+      this.paused = false;
+      this.stepsQueued = 0;
+      this.speed = 1;
+      this.selected = null;
+    }
+
+    attach(canvas: HTMLCanvasElement){
+      /**
+       * Left click selects what is under the pointer, or
+       * nothing. The editor has the mouse while editing.
+       */
+      canvas.addEventListener('pointerdown', e => {
+        if(!this.isOn || this.game.editor.active || e.button !== 0) return;
+        this.selected = this.pick(this.game.camera.screenToWorld(canvasPoint(canvas, e)));
+      });
+    }
+
+    recordFrame(deltaTime: number){
+      this.frameTimes.push(deltaTime);
+      if(this.frameTimes.length > FRAME_HISTORY) this.frameTimes.shift();
+    }
+
+    get frameStats(): FrameStats {
+      let times = this.frameTimes;
+      if(!times.length) return { min: 0, avg: 0, max: 0, fps: 0 };
+      let avg = times.reduce((sum, time) => sum + time, 0) / times.length;
+      return {
+        min: Math.min(...times),
+        avg,
+        max: Math.max(...times),
+        fps: avg > 0 ? ONE_SECOND / avg : 0
+      };
+    }
+
+    entities(): Array<AnyEntity> {
+      /**
+       * Everything in the world, in drawing order.
+       */
+      let world = this.game.world;
+      let kinds = [...world.inCollection('solids'), ...world.inCollection('props'), ...world.inCollection('actors')];
+      return [].concat(...kinds.map(kind => world.all(kind)));
+    }
+
+    bounds(entity: AnyEntity): Box {
+      /**
+       * The area that selects the entity. Reference points and
+       * explosions have no box of their own, they get one around them.
+       */
+      switch (entity.kind) {
+        case 'solid':
+        case 'trigger':
+          return entity.box;
+        case 'spawn':
+        case 'door':
+          return { x: entity.pos.x - PICK_RADIUS, y: entity.pos.y - PICK_RADIUS, w: PICK_RADIUS * 2, h: PICK_RADIUS * 2 };
+        case 'explosion':
+          return { x: entity.pos.x - entity.radius, y: entity.pos.y - entity.radius, w: entity.radius * 2, h: entity.radius * 2 };
+        case 'cannon':
+          return { x: entity.pos.x, y: entity.pos.y, w: entity.width, h: entity.height };
+        case 'bubble':
+          return null;
+        default:
+          return entity.hitbox();
+      }
+    }
+
+    pick(point: Vector2D): AnyEntity {
+      /**
+       * The topmost entity under the point. Solids come last
+       * so they don't hide what stands in front of them.
+       */
+      let entities = this.entities().reverse();
+      return entities.find(entity => {
+        let box = this.bounds(entity);
+        return box && point.x >= box.x && point.x <= box.x + box.w &&
+          point.y >= box.y && point.y <= box.y + box.h;
+      }) || null;
+    }
+
+    describe(entity: AnyEntity): Array<string> {
+      /**
+       * Inspector lines: name, position, and whatever else of
+       * velocity, animation and health the entity has.
+       */
+      let lines = ['type' in entity ? `${entity.kind} ${entity.type}` : entity.kind];
+      // Triggers are only an area, bubbles go where their sprite is
+      let pos = 'pos' in entity ? entity.pos : entity.kind === 'trigger' ? new Vector2D(entity.box.x, entity.box.y) : entity.sprite.pos;
+      lines.push(`pos ${pos.x.toFixed(1)}, ${pos.y.toFixed(1)}`);
+      if(entity instanceof Actor){
+        lines.push(`vel ${entity.vel.x.toFixed(1)}, ${entity.vel.y.toFixed(1)}`);
+        let contacts = [entity.grounded && 'ground', entity.wall && `wall ${entity.wall}`, entity.ceiling && 'ceiling'];
+        lines.push(`health ${entity.health}/${entity.maxHealth}  ${contacts.filter(Boolean).join(', ') || 'in the air'}`);
+      }
+      if('animator' in entity && entity.animator){
+        let ai = entity.kind === 'enemy' ? ` (${entity.state})` : '';
+        lines.push(`anim ${entity.animator.state} frame ${entity.sprite.currentFrame}${ai}`);
+      }
+      return lines;
+    }
+
+    draw(ctx: CanvasRenderingContext2D, alpha: number){
+      /**
+       * In world coordinates, on top of the entities.
+       * Contacts: green floors, orange walls and red ceilings
+       * actors touched on the last step. Yellow velocity arrows.
+       */
+      let actors = this.entities().filter(entity => entity instanceof Actor) as Array<Actor>;
+      ctx.save();
+      for(let actor of actors){
+        let contacts: Array<[CollisionBlock, string]> = [[actor.ground, 'green'], [actor.wallBlock, 'orange'], [actor.ceiling, 'red']];
+        for(let [block, color] of contacts){
+          if(!block) continue;
+          ctx.fillStyle = color;
+          ctx.globalAlpha = 0.4;
+          ctx.fillRect(block.pos.x, block.pos.y, block.w, block.h);
+        }
+      }
+      ctx.globalAlpha = 1;
+      ctx.strokeStyle = 'yellow';
+      ctx.fillStyle = 'yellow';
+      ctx.lineWidth = 2;
+      for(let actor of actors){
+        if(actor.vel.magnitude() < 1) continue;
+        let pos = actor.renderPos(alpha);
+        let from = new Vector2D(pos.x + actor.width / 2, pos.y + actor.height / 2);
+        let to = from.add(actor.vel.multiply(VELOCITY_ARROW_TIME));
+        let angle = actor.vel.getAngle();
+        ctx.beginPath();
+        ctx.moveTo(from.x, from.y);
+        ctx.lineTo(to.x, to.y);
+        ctx.stroke();
+        ctx.beginPath();
+        ctx.moveTo(to.x, to.y);
+        ctx.lineTo(to.x - 8 * Math.cos(angle - 0.5), to.y - 8 * Math.sin(angle - 0.5));
+        ctx.lineTo(to.x - 8 * Math.cos(angle + 0.5), to.y - 8 * Math.sin(angle + 0.5));
+        ctx.fill();
+      }
+      // Forget entities that left the world
+      if(this.selected && !this.game.world.has(this.selected)) this.selected = null;
+      let box = this.selected && this.bounds(this.selected);
+      if(box){
+        ctx.strokeStyle = 'magenta';
+        ctx.setLineDash([6, 4]);
+        ctx.strokeRect(box.x - 2, box.y - 2, box.w + 4, box.h + 4);
+      }
+      ctx.restore();
+    }
+  }
+
+
+  /**
+   * [Debug mode]
+   * FPS, min/avg/max frame time and a graph of the last frames. The
+   * line on the graph is the simulation step; taller bars mean the
+   * frame took longer than a step.
+   */
+  class FrameStatsPanel implements HudElement {
+    anchor: HudAnchor = 'bottomRight';
+    offset = { x: 10, y: 10 };
+    width = 260;
+    height = 110;
+    game: GameEngine;
+
+    constructor(game: GameEngine){
+      this.game = game;
+    }
+
+    visible(): boolean {
+      return this.game.debug.isOn;
+    }
+
+    draw(ctx: CanvasRenderingContext2D){
+      let debug = this.game.debug;
+      let stats = debug.frameStats;
+      ctx.fillStyle = 'rgba(0, 0, 0, 0.7)';
+      ctx.fillRect(0, 0, this.width, this.height);
+      ctx.fillStyle = 'white';
+      ctx.textAlign = 'left';
+      ctx.textBaseline = 'top';
+      ctx.font = '14px Roboto';
+      let playback = debug.paused ? 'paused (n: step)' : `${debug.speed}x`;
+      ctx.fillText(`${stats.fps.toFixed()} fps   ${playback}   tick ${this.game.tick}`, 10, 8);
+      ctx.fillText(`min ${stats.min.toFixed(1)}  avg ${stats.avg.toFixed(1)}  max ${stats.max.toFixed(1)} ms`, 10, 28);
+      // Graph, scaled so that two steps always fit
+      let graph = { x: 10, y: 50, w: this.width - 20, h: this.height - 60 };
+      let top = Math.max(TIME_STEP * 2, stats.max);
+      let barWidth = graph.w / FRAME_HISTORY;
+      debug.frameTimes.forEach((time, i) => {
+        let h = Math.min(1, time / top) * graph.h;
+        ctx.fillStyle = time > TIME_STEP * 1.5 ? 'red' : 'lime';
+        ctx.fillRect(graph.x + i * barWidth, graph.y + graph.h - h, Math.max(1, barWidth - 0.5), h);
+      });
+      let stepY = graph.y + graph.h - TIME_STEP / top * graph.h;
+      ctx.strokeStyle = 'white';
+      ctx.beginPath();
+      ctx.moveTo(graph.x, stepY);
+      ctx.lineTo(graph.x + graph.w, stepY);
+      ctx.stroke();
+    }
+  }
+
+
+  /**
+   * [Debug mode]
+   * The selected entity in detail, then a line per entity with its
+   * position, velocity and animation. Solids are only counted.
+   */
+  class InspectorPanel implements HudElement {
+    anchor: HudAnchor = 'topRight';
+    offset = { x: 10, y: 40 };
+    width = 320;
+    height = 380;
+    game: GameEngine;
+
+    constructor(game: GameEngine){
+      this.game = game;
+    }
+
+    visible(): boolean {
+      return this.game.debug.isOn && !this.game.editor.active;
+    }
+
+    row(entity: AnyEntity): string {
+      let debug = this.game.debug;
+      let [name, pos, ...rest] = debug.describe(entity);
+      let vel = rest.find(line => line.startsWith('vel')) || '';
+      let anim = rest.find(line => line.startsWith('anim')) || '';
+      return [name, pos.replace('pos ', ''), vel, anim.replace(/ frame \d+/, '')].filter(Boolean).join('  ');
+    }
+
+    draw(ctx: CanvasRenderingContext2D){
+      let debug = this.game.debug;
+      let entities = debug.entities();
+      let solids = entities.filter(entity => entity.kind === 'solid').length;
+      let others = entities.filter(entity => entity.kind !== 'solid');
+      ctx.fillStyle = 'rgba(0, 0, 0, 0.7)';
+      ctx.fillRect(0, 0, this.width, this.height);
+      ctx.textAlign = 'left';
+      ctx.textBaseline = 'top';
+      let y = 8;
+      let line = (text: string, color: string = 'white') => {
+        ctx.fillStyle = color;
+        ctx.fillText(text, 10, y, this.width - 20);
+        y += 16;
+      };
+      ctx.font = '14px Roboto';
+      if(debug.selected){
+        debug.describe(debug.selected).forEach(text => line(text, 'magenta'));
+      } else {
+        line('Click an entity to inspect it', 'gray');
+      }
+      y += 6;
+      ctx.font = '12px Roboto';
+      line(`${entities.length} entities, ${solids} solids`);
+      let rows = Math.floor((this.height - y - 8) / 16);
+      let shown = others.length > rows ? others.slice(0, rows - 1) : others;
+      for(let entity of shown){
+        line(this.row(entity), entity === debug.selected ? 'magenta' : 'white');
+      }
+      if(shown.length < others.length){
+        line(`+${others.length - shown.length} more`, 'gray');
+      }
+    }
+  }
+
+
+  const RECORDING_VERSION = 1;
+  const REPLAY_SPEEDS = [0.25, 0.5, 1, 2, 4];
+  const REPLAY_RESULT_TIME = 3000; // ms the replay result stays on screen
+
+  const CHECKSUM_SEED = 0x811c9dc5;
+
+  function positionChecksum(hash: number, tick: number, pos: Vector2D): number {
+    /**
+     * Fold the tick and position into an FNV-1a hash. Called every step,
+     * so the result covers the whole path, not only where it ended.
+     * Positions are rounded so the text is stable.
+     */
+    let text = `${tick}:${pos.x.toFixed(4)}:${pos.y.toFixed(4)}`;
+    for(let i = 0; i < text.length; i++){
+      hash ^= text.charCodeAt(i);
+      hash = Math.imul(hash, 0x01000193) >>> 0;
+    }
+    return hash;
+  }
+
+
+  /**
+   * InputRecorder keeps every action event together with the
+   * simulation step it happened on. Actions already held when it
+   * starts are kept as pressed on step 0, so the replay holds them too.
+   */
+  class InputRecorder {
+    recording: Recording;
+
+    constructor(level: number, seed: number, canvas: CanvasSize, held: Array<InputAction>){
+      this.recording = {
+        version: RECORDING_VERSION,
+        level,
+        seed,
+        canvas: { width: canvas.width, height: canvas.height },
+        ticks: 0,
+        inputs: held.map(action => ({ tick: 0, action, pressed: true })),
+        final: null,
+        checksum: null
+      };
+    }
+
+    record(tick: number, events: Array<ActionEvent>){
+      for(let event of events){
+        // Starting/stopping the recording is not part of the session
+        if(event.action === 'toggleRecording') continue;
+        this.recording.inputs.push({ tick, action: event.action, pressed: event.pressed });
+      }
+    }
+
+    finish(tick: number, player: Player, checksum: number): Recording {
+      this.recording.ticks = tick;
+      this.recording.final = { x: player.pos.x, y: player.pos.y };
+      this.recording.checksum = checksum.toString(16).padStart(8, '0');
+      return this.recording;
+    }
+  }
+
+
+  /**
+   * InputReplay plays a Recording back in place of the InputManager.
+   * The playback actions (see PLAYBACK_ACTIONS) control it while it plays.
+   */
+  class InputReplay implements Playback {
+    recording: Recording;
+    index: number;          // next input to play
+    held: Set<InputAction>;
+    paused: boolean;
+    speed: number;
+    speeds = REPLAY_SPEEDS;
+    stepsQueued: number;    // single steps requested while paused
+
+    constructor(recording: Recording){
+      if(recording.version !== RECORDING_VERSION){
+        throw new Error(`Unsupported recording version ${recording.version}`);
+      }
+      this.recording = recording;
+      this.index = 0;
+      this.held = new Set();
+      this.paused = false;
+      this.speed = 1;
+      this.stepsQueued = 0;
+    }
+
+    poll(tick: number): Array<ActionEvent> {
+      let events: Array<ActionEvent> = [];
+      let inputs = this.recording.inputs;
+      while(this.index < inputs.length && inputs[this.index].tick <= tick){
+        let input = inputs[this.index++];
+        events.push({ action: input.action, pressed: input.pressed });
+        if(input.pressed){
+          this.held.add(input.action);
+        } else {
+          this.held.delete(input.action);
+        }
+      }
+      return events;
+    }
+
+    isHeld(action: InputAction): boolean {
+      return this.held.has(action);
+    }
+
+    done(tick: number): boolean {
+      return tick >= this.recording.ticks;
+    }
+
+    verify(checksum: number): boolean {
+      return checksum.toString(16).padStart(8, '0') === this.recording.checksum;
+    }
+  }
+
+
+  const SAVE_VERSION = 1;
+  const SAVE_SLOTS = 3;
+  const SAVE_STORAGE_KEY = 'game3.save';     // one key per slot: game3.save.0, game3.save.1...
+  const SAVE_SLOT_KEY = 'game3.save.slot';   // last slot written to
+  /**
+   * Each entry takes a save of that version and returns it
+   * in the shape of the next version (with version + 1).
+   */
+  const SAVE_MIGRATIONS: {[version: number]: (data: Record<string, unknown>) => Record<string, unknown>} = {};
+
+  function isRecord(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+  }
+
+  function migrateSave(input: unknown): SaveData {
+    /**
+     * Bring a save of any older version up to SAVE_VERSION,
+     * one version at a time. Saves come from files and storage,
+     * so everything is checked. Throws on anything that isn't a save.
+     */
+    if(!isRecord(input) || typeof input.version !== 'number' || !isRecord(input.progress)){
+      throw new Error('Not a save file');
+    }
+    let data = input;
+    let version = input.version;
+    if(version > SAVE_VERSION){
+      throw new Error(`Save version ${version} is newer than this game supports (${SAVE_VERSION})`);
+    }
+    while(version < SAVE_VERSION){
+      let migrate = SAVE_MIGRATIONS[version];
+      if(!migrate){
+        throw new Error(`Can't upgrade a save from version ${version}`);
+      }
+      data = migrate(data);
+      if(typeof data.version !== 'number' || data.version <= version){
+        throw new Error(`Upgrading a save from version ${version} failed`);
+      }
+      version = data.version;
+    }
+    let progress = data.progress;
+    if(!isRecord(progress) || !Array.isArray(progress.unlockedLevels) ||
+      !progress.unlockedLevels.every(level => typeof level === 'number') ||
+      typeof progress.currentLevel !== 'number' || typeof progress.lives !== 'number' ||
+      typeof progress.score !== 'number'){
+      throw new Error('Save file is missing its progress');
+    }
+    if(!isRecord(data.settings) || typeof data.settings.debug !== 'boolean'){
+      throw new Error('Save file is missing its settings');
+    }
+    return data as unknown as SaveData;
+  }
+
+
+  /**
+   * Keeps saves in memory. Used when there is no localStorage (headless).
+   */
+  class MemoryStorage implements SaveStorage {
+    items: Map<string, string>;
+
+    constructor(){
+      this.items = new Map();
+    }
+
+    getItem(key: string): string {
+      return this.items.has(key) ? this.items.get(key) : null;
+    }
+
+    setItem(key: string, value: string){
+      this.items.set(key, value);
+    }
+
+    removeItem(key: string){
+      this.items.delete(key);
+    }
+  }
+
+
+  /**
+   * SaveStore reads and writes the save slots.
+   * Saves are upgraded to the current version when read.
+   */
+  class SaveStore {
+    storage: SaveStorage;
+
+    constructor(storage: SaveStorage){
+      this.storage = storage;
+    }
+
+    key(slot: number): string {
+      if(!Number.isInteger(slot) || slot < 0 || slot >= SAVE_SLOTS){
+        throw new Error(`There is no save slot ${slot} (0 to ${SAVE_SLOTS - 1})`);
+      }
+      return `${SAVE_STORAGE_KEY}.${slot}`;
+    }
+
+    get lastSlot(): number {
+      let slot = Number(this.storage.getItem(SAVE_SLOT_KEY));
+      return Number.isInteger(slot) && slot >= 0 && slot < SAVE_SLOTS ? slot : 0;
+    }
+
+    write(slot: number, data: SaveData){
+      this.storage.setItem(this.key(slot), JSON.stringify(data));
+      this.storage.setItem(SAVE_SLOT_KEY, String(slot));
+    }
+
+    read(slot: number): SaveData {
+      /**
+       * null for an empty slot. Broken saves are reported and
+       * treated as empty, the same as saved input bindings.
+       */
+      let text = this.storage.getItem(this.key(slot));
+      if(!text) return null;
+      try {
+        return migrateSave(JSON.parse(text));
+      } catch (e) {
+        console.warn(`Ignoring save slot ${slot}`, e);
+        return null;
+      }
+    }
+
+    clear(slot: number){
+      this.storage.removeItem(this.key(slot));
+    }
+
+    list(): Array<SaveData> {
+      /**
+       * Every slot in order, null for the empty ones.
+       */
+      let saves: Array<SaveData> = [];
+      for(let slot = 0; slot < SAVE_SLOTS; slot++){
+        saves.push(this.read(slot));
+      }
+      return saves;
+    }
+  }
+
+
+  const DEFAULT_BINDINGS: InputBindings = {
+    keys: {
+      moveLeft: ['ArrowLeft'],
+      moveRight: ['ArrowRight'],
+      jump: [' '],
+      drop: ['ArrowDown'],
+      interact: ['ArrowUp'],
+      attack: ['a'],
+      toggleDebug: ['d'],
+      toggleRecording: ['F8'],
+      toggleMute: ['m'],
+      toggleEditor: ['e'],
+      menuUp: ['ArrowUp'],
+      menuDown: ['ArrowDown'],
+      confirm: ['Enter', ' '],
+      pause: ['p'],
+      step: ['n'],
+      slower: ['-'],
+      faster: ['=', '+'],
+      prevTool: ['['],
+      nextTool: [']']
+    },
+    buttons: {
+      moveLeft: [14],   // d-pad left
+      moveRight: [15],  // d-pad right
+      jump: [0],        // A / cross
+      drop: [13],       // d-pad down
+      interact: [12, 3],// d-pad up, Y / triangle
+      attack: [2],      // X / square
+      toggleDebug: [8], // back / select
+      toggleRecording: [],
+      toggleMute: [],
+      toggleEditor: [],
+      menuUp: [12],
+      menuDown: [13],
+      confirm: [0, 9],  // A / cross, start
+      pause: [6],       // left trigger
+      step: [7],        // right trigger
+      slower: [4],      // left bumper
+      faster: [5],      // right bumper
+      prevTool: [],
+      nextTool: []
+    }
+  };
+  /**
+   * Actions that control the playback (see Playback) instead of the
+   * game. They are never recorded, and work while the game is paused.
+   */
+  const PLAYBACK_ACTIONS: Array<InputAction> = ['pause', 'step', 'slower', 'faster'];
+  /**
+   * Actions that steer the player. Those held when a recording
+   * starts are recorded as pressed on its first step.
+   */
+  const PLAYER_ACTIONS: Array<InputAction> = ['moveLeft', 'moveRight', 'jump', 'drop', 'interact', 'attack'];
+  const BINDINGS_STORAGE_KEY = 'game3.inputBindings';
+  const STICK_DEADZONE = 0.5;
+
+
+  /**
+   * InputManager turns keyboard and gamepad state into
+   * logical InputActions. Keyboard events only record what happened;
+   * poll() is called once per simulation step and returns the
+   * actions pressed or released since the previous poll.
+   */
+  class InputManager implements InputSource {
+    bindings: InputBindings;
+    keysDown: Set<string>;
+    keysTapped: Set<string>;   // pressed since last poll, even if already released
+    held: Set<InputAction>;
+    rebinding: InputAction;    // next key pressed is bound to this action
+    storage: SaveStorage;
+
+    constructor(target: Window, storage: SaveStorage){
+      this.storage = storage;
+      this.bindings = this.loadBindings();
+      this.keysDown = new Set();
+      this.keysTapped = new Set();
+      this.held = new Set();
+      this.rebinding = null;
+      target.addEventListener('keydown', e => this.handleKeyDown(e));
+      target.addEventListener('keyup', e => this.handleKeyUp(e));
+      // Keys released while the window is not focused never send keyup
+      target.addEventListener('blur', () => this.keysDown.clear());
+    }
+
+    handleKeyDown(e: KeyboardEvent){
+      if(this.rebinding){
+        this.rebind(this.rebinding, e.key);
+        this.rebinding = null;
+        e.preventDefault();
+        return;
+      }
+      if(this.actionsForKey(e.key).length){
+        // Stop arrows and space from scrolling the page
+        e.preventDefault();
+      }
+      if(e.repeat) return;
+      this.keysDown.add(e.key);
+      this.keysTapped.add(e.key);
+    }
+
+    handleKeyUp(e: KeyboardEvent){
+      this.keysDown.delete(e.key);
+    }
+
+    actionsForKey(key: string): Array<InputAction> {
+      let actions = Object.keys(this.bindings.keys) as Array<InputAction>;
+      return actions.filter(action => this.bindings.keys[action].includes(key));
+    }
+
+    gamepadActions(): Set<InputAction> {
+      /**
+       * Actions held on the first connected gamepad.
+       * The left stick works as the d-pad for moving.
+       */
+      let actions = new Set<InputAction>();
+      if(!navigator.getGamepads) return actions;
+      let pad = Array.from(navigator.getGamepads()).find(p => p && p.connected);
+      if(!pad) return actions;
+      let all = Object.keys(this.bindings.buttons) as Array<InputAction>;
+      for(let action of all){
+        if(this.bindings.buttons[action].some(i => pad.buttons[i] && pad.buttons[i].pressed)){
+          actions.add(action);
+        }
+      }
+      let stickX = pad.axes[0] || 0;
+      if(stickX < -STICK_DEADZONE) actions.add('moveLeft');
+      if(stickX > STICK_DEADZONE) actions.add('moveRight');
+      return actions;
+    }
+
+    poll(): Array<ActionEvent> {
+      let held = this.gamepadActions();
+      for(let key of this.keysDown){
+        this.actionsForKey(key).forEach(action => held.add(action));
+      }
+      let events: Array<ActionEvent> = [];
+      let tapped = new Set<InputAction>();
+      for(let key of this.keysTapped){
+        this.actionsForKey(key).forEach(action => tapped.add(action));
+      }
+      for(let action of held){
+        if(!this.held.has(action)) events.push({ action, pressed: true });
+      }
+      // A key pressed and released between two polls still counts
+      for(let action of tapped){
+        if(!held.has(action) && !this.held.has(action)){
+          events.push({ action, pressed: true }, { action, pressed: false });
+        }
+      }
+      for(let action of this.held){
+        if(!held.has(action)) events.push({ action, pressed: false });
+      }
+      this.keysTapped.clear();
+      this.held = held;
+      return events;
+    }
+
+    isHeld(action: InputAction): boolean {
+      return this.held.has(action);
+    }
+
+    rebind(action: InputAction, key: string){
+      this.bindings.keys[action] = [key];
+      this.saveBindings();
+    }
+
+    rebindButton(action: InputAction, button: number){
+      this.bindings.buttons[action] = [button];
+      this.saveBindings();
+    }
+
+    captureNextKey(action: InputAction){
+      /**
+       * The next key pressed becomes the binding for the action.
+       */
+      this.rebinding = action;
+    }
+
+    resetBindings(){
+      this.bindings = this.loadBindings(true);
+      this.saveBindings();
+    }
+
+    loadBindings(defaults: boolean = false): InputBindings {
+      /**
+       * Saved bindings are merged on top of the defaults so
+       * actions added after the save still get a binding.
+       * Only key (string) and button (number) lists of known
+       * actions are taken, anything else keeps the default.
+       */
+      let bindings: InputBindings = JSON.parse(JSON.stringify(DEFAULT_BINDINGS));
+      if(defaults) return bindings;
+      try {
+        let saved: unknown = JSON.parse(this.storage.getItem(BINDINGS_STORAGE_KEY));
+        if(isRecord(saved)){
+          let actions = Object.keys(DEFAULT_BINDINGS.keys) as Array<InputAction>;
+          for(let action of actions){
+            let keys = isRecord(saved.keys) && saved.keys[action];
+            if(Array.isArray(keys) && keys.every(key => typeof key === 'string')){
+              bindings.keys[action] = keys;
+            }
+            let buttons = isRecord(saved.buttons) && saved.buttons[action];
+            if(Array.isArray(buttons) && buttons.every(button => typeof button === 'number')){
+              bindings.buttons[action] = buttons;
+            }
+          }
+        }
+      } catch (e) {
+        console.warn('Ignoring saved input bindings', e);
+      }
+      return bindings;
+    }
+
+    saveBindings(){
+      this.storage.setItem(BINDINGS_STORAGE_KEY, JSON.stringify(this.bindings));
+    }
+  }
+
+
+  /**
+   * The Camera is the part of the level shown on screen.
+   * Everything in the level lives in world coordinates (canvas
+   * pixels with the camera at 0, 0); drawing it through apply()
+   * puts it on screen. The HUD is drawn without the camera.
+   * It moves in fixed steps like the rest of the simulation and
+   * is interpolated when drawn.
+   */
+  class Camera {
+    pos: Vector2D;      // world position of the screen's top left corner
+    prevPos: Vector2D;
+    view: CanvasSize;   // screen size
+    bounds: Box;        // world area the camera stays inside
+    shakeMagnitude: number;
+    shakeDuration: number;
+    shakeTimer: number;
+    shakeOffset: Vector2D;
+
+    constructor(view: CanvasSize){
+      this.view = view;
+      this.pos = new Vector2D(0, 0);
+      this.prevPos = new Vector2D(0, 0);
+      this.bounds = { x: 0, y: 0, w: view.width, h: view.height };
+      this.shakeMagnitude = 0;
+      this.shakeDuration = 0;
+      this.shakeTimer = 0;
+      this.shakeOffset = new Vector2D(0, 0);
+    }
+
+    deadZone(): Box {
+      /**
+       * Area of the screen, in world coordinates, the target
+       * can move in without the camera following.
+       */
+      let w = this.view.width * CAMERA_DEAD_ZONE.x;
+      let h = this.view.height * CAMERA_DEAD_ZONE.y;
+      return {
+        x: this.pos.x + (this.view.width - w) / 2,
+        y: this.pos.y + (this.view.height - h) / 2,
+        w,
+        h
+      };
+    }
+
+    follow(target: Box, stepTime: number){
+      /**
+       * Move towards keeping the target inside the dead zone.
+       */
+      this.prevPos = new Vector2D(this.pos.x, this.pos.y);
+      let zone = this.deadZone();
+      let goal = new Vector2D(this.pos.x, this.pos.y);
+      if(target.x < zone.x) goal.x -= zone.x - target.x;
+      if(target.x + target.w > zone.x + zone.w) goal.x += target.x + target.w - (zone.x + zone.w);
+      if(target.y < zone.y) goal.y -= zone.y - target.y;
+      if(target.y + target.h > zone.y + zone.h) goal.y += target.y + target.h - (zone.y + zone.h);
+      goal = this.clamp(goal);
+      let t = 1 - Math.exp(-CAMERA_SMOOTHING * stepTime / ONE_SECOND);
+      this.pos = this.pos.add(goal.subtract(this.pos).multiply(t));
+      this.updateShake(stepTime);
+    }
+
+    snapTo(target: Box){
+      /**
+       * Centre on the target straight away (level start, respawn).
+       */
+      let goal = new Vector2D(
+        target.x + target.w / 2 - this.view.width / 2,
+        target.y + target.h / 2 - this.view.height / 2
+      );
+      this.pos = this.clamp(goal);
+      this.prevPos = new Vector2D(this.pos.x, this.pos.y);
+    }
+
+    clamp(pos: Vector2D): Vector2D {
+      /**
+       * Levels smaller than the screen are centred.
+       */
+      let axis = (value: number, start: number, size: number, view: number) =>
+        size <= view ? start - (view - size) / 2 : Math.max(start, Math.min(start + size - view, value));
+      return new Vector2D(
+        axis(pos.x, this.bounds.x, this.bounds.w, this.view.width),
+        axis(pos.y, this.bounds.y, this.bounds.h, this.view.height)
+      );
+    }
+
+    shake(magnitude: number, duration: number){
+      /**
+       * magnitude - px at the start, it fades out over duration (ms).
+       * A weaker shake doesn't cut a stronger one short.
+       */
+      if(this.shakeTimer > 0 && this.shakeMagnitude * this.shakeTimer / this.shakeDuration > magnitude) return;
+      this.shakeMagnitude = magnitude;
+      this.shakeDuration = duration;
+      this.shakeTimer = duration;
     }
 
-    update(args: PlayerUpdateOptions){
+    updateShake(stepTime: number){
       /**
-       * Update must be separated into X-Axis and Y-Axis to avoid errors.
-       * First we update position on X-axis and then check for collisions on this axis
-       * Then we update position on Y-axis and then check for collision on this axis
-       */  
-      // Update X-pos with X-vel
-      this.pos.x += this.vel.x;
-      // Check for collision with blocks in X-axis
-      this.checkCollisionXaxis(args.collisionBlocks);
-      // Apply gravity - this will update the Y-vel with Gravity.
-      this.game.applyGravity(this); 
-      // Update Y-position with Y-velocity
-      this.pos.y += this.vel.y;
-      // Check for collision with blocks in Y-axis
-      this.checkCollisionYaxis(args.collisionBlocks)
-    }
-
-    checkCollisionYaxis(blocks: Array<CollisionBlock>){
-      let player = this;
-      for(let block of blocks){
-        if(player.pos.x <= block.pos.x + block.w &&
-          player.pos.x + player.width >= block.pos.x &&
-          player.pos.y + player.height >= block.pos.y &&
-          player.pos.y <= block.pos.y + block.h
-          ) {
-            if(player.vel.y < 0) {
-              player.pos.y = block.pos.y + block.h + 0.01;
-            }
-            if(player.vel.y > 0){
-              player.pos.y = block.pos.y - player.height - 0.01;
-            }
-            player.vel.y = 0;
-            break 
-        }
+       * A fading wobble rather than random jumps,
+       * so it doesn't use up the game's random numbers.
+       */
+      this.shakeTimer = Math.max(0, this.shakeTimer - stepTime);
+      if(this.shakeTimer === 0){
+        this.shakeOffset = new Vector2D(0, 0);
+        return;
       }
+      let strength = this.shakeMagnitude * this.shakeTimer / this.shakeDuration;
+      let phase = (this.shakeDuration - this.shakeTimer) / ONE_SECOND * SHAKE_FREQUENCY * Math.PI * 2;
+      this.shakeOffset = new Vector2D(Math.sin(phase) * strength, Math.cos(phase * 1.3) * strength);
     }
 
-    checkCollisionXaxis(blocks: Array<CollisionBlock>){
-      let player = this;
-      for(let block of blocks){
-        // check if it is a door! // [ ] player entering door logic
-        if(block.constructor.name == 'Door'){
-          if(player.pos.x + player.width >= block.pos.x
-            ){
-              // let g = block as Door;
-              // console.log(block);
-              // console.log('Hit a door');
-              // don't use break otherwise below logic won't run!
-          }
-        }
+    renderPos(alpha: number): Vector2D {
+      return this.prevPos.add(this.pos.subtract(this.prevPos).multiply(alpha)).add(this.shakeOffset);
+    }
 
-        if(player.pos.x <= block.pos.x + block.w &&
-          player.pos.x + player.width >= block.pos.x &&
-          player.pos.y + player.height >= block.pos.y &&
-          player.pos.y <= block.pos.y + block.h
-          ) {
-            if(player.vel.x < 0) {
-              player.pos.x = block.pos.x + block.w + 0.01;
-            }
-            if(player.vel.x > 0){
-              player.pos.x = block.pos.x - player.width - 0.01;
-            }
-            break 
-        }
-      }
+    worldToScreen(point: Vector2D, alpha: number = 1): Vector2D {
+      return point.subtract(this.renderPos(alpha));
     }
 
-    stop() {
-      this.vel = this.vel.multiply(0);
+    screenToWorld(point: Vector2D, alpha: number = 1): Vector2D {
+      return point.add(this.renderPos(alpha));
     }
-    
-    animate(deltaTime: number){
-      this.sprite.animate(deltaTime);
+
+    apply(ctx: CanvasRenderingContext2D, alpha: number){
+      /**
+       * Whole pixels, so tiles don't show seams while scrolling.
+       */
+      let pos = this.renderPos(alpha);
+      ctx.translate(-Math.round(pos.x), -Math.round(pos.y));
     }
+  }
 
-    move(direction: string) {
-      switch (direction) {
-        case 'ArrowLeft':
-          this.vel.x = -this.speedFactor;
-          this.sprite.swapSprite(this.player_images.runLeft);
-          this.direction = 'left';
-          break;
-        case 'ArrowRight':
-          this.vel.x = this.speedFactor;
-          this.sprite.swapSprite(this.player_images.runRight);
-          this.direction = 'right';
-          break;
-      }
+
+  /**
+   * ScriptedInput is driven from code instead of a keyboard or
+   * gamepad, e.g. to run the game headlessly in tests.
+   * Presses and releases take effect on the next simulation step.
+   */
+  class ScriptedInput implements InputSource {
+    queued: Array<ActionEvent>;
+    held: Set<InputAction>;
+
+    constructor(){
+      this.queued = [];
+      this.held = new Set();
     }
 
-    enterDoor(){
-      this.sprite.swapSprite(this.player_images.enterDoor);
+    press(action: InputAction){
+      this.queued.push({ action, pressed: true });
     }
 
-    attack(){   
-      this.sprite.swapSprite(this.player_images.attack);
+    release(action: InputAction){
+      this.queued.push({ action, pressed: false });
     }
 
-    jump() {
-      if (this.vel.y == 0) {
-        this.vel = this.vel.add(new Vector2D(0, this.jumpFactor));
+    tap(action: InputAction){
+      this.press(action);
+      this.release(action);
+    }
+
+    poll(): Array<ActionEvent> {
+      let events = this.queued;
+      this.queued = [];
+      for(let event of events){
+        if(event.pressed){
+          this.held.add(event.action);
+        } else {
+          this.held.delete(event.action);
+        }
       }
+      return events;
+    }
+
+    isHeld(action: InputAction): boolean {
+      return this.held.has(action);
     }
   }
 
 
+  /**
+   * One synthesised tone. Oscillators sweep their pitch from
+   * one frequency to the other; noise sweeps a low-pass filter
+   * instead, which gives thuds, swooshes and crashes.
+   */
+  interface ToneSetup {
+    wave: OscillatorType | 'noise'
+    from: number     // Hz at the start
+    to: number       // Hz at the end
+    duration: number // ms
+    delay?: number   // ms after the sound starts
+    volume: number   // 0 to 1
+  }
+  /**
+   * notes - one token per step: a note like 'C4' or 'F#3', '.' for a rest
+   */
+  interface MusicVoice {
+    wave: OscillatorType
+    volume: number
+    notes: string
+  }
+  interface MusicTrack {
+    tempo: number // steps per minute
+    voices: Array<MusicVoice>
+  }
+  type AudioChannel = 'master' | 'music' | 'sfx';
+  interface AudioSettings {
+    volume: {[channel in AudioChannel]: number} // 0 to 1
+    muted: boolean
+  }
+  interface MusicPlayback {
+    track: MusicTrack
+    gain: GainNode
+    step: number     // next step to schedule
+    nextTime: number // s, AudioContext time of the next step
+    stopTime: number // s, when its fade out is over, Infinity while playing
+  }
 
   /**
-   * A Door is an game actor in that it performs some animations
-   * and influences game flow.
+   * Sound effects by id, played by AnimationClip.sounds
+   * and AudioManager.play().
    */
-  class Door extends Point{
-    sprite: ActorSprite; 
-    open: boolean;
-    fullOpen: boolean;
-    constructor(x: number, y: number){  
-      /**
-       * sprite - ActorSprite
-       */ 
-      let pos = new Vector2D(x, y);
-      super(pos, '[Door]');
-      let door_image = document.getElementById('doorOpen') as HTMLImageElement;
-      this.sprite = new ActorSprite(this.pos, door_image);
-      this.open = false;
-    } 
+  const SOUND_EFFECTS: {[id: string]: Array<ToneSetup>} = {
+    jump: [{ wave: 'square', from: 300, to: 600, duration: 120, volume: 0.15 }],
+    land: [{ wave: 'noise', from: 800, to: 150, duration: 90, volume: 0.3 }],
+    step: [{ wave: 'noise', from: 1500, to: 500, duration: 40, volume: 0.1 }],
+    swing: [{ wave: 'noise', from: 3000, to: 700, duration: 130, volume: 0.2 }],
+    door: [
+      { wave: 'square', from: 120, to: 90, duration: 220, volume: 0.1 },
+      { wave: 'noise', from: 600, to: 250, duration: 260, volume: 0.15 }
+    ],
+    hit: [
+      { wave: 'square', from: 220, to: 80, duration: 150, volume: 0.2 },
+      { wave: 'noise', from: 2000, to: 400, duration: 100, volume: 0.2 }
+    ],
+    pickup: [
+      { wave: 'square', from: 880, to: 880, duration: 70, volume: 0.12 },
+      { wave: 'square', from: 1320, to: 1320, duration: 140, delay: 70, volume: 0.12 }
+    ],
+    death: [{ wave: 'triangle', from: 440, to: 110, duration: 600, volume: 0.3 }],
+    boom: [
+      { wave: 'noise', from: 1200, to: 60, duration: 500, volume: 0.5 },
+      { wave: 'sine', from: 90, to: 40, duration: 400, volume: 0.4 }
+    ]
+  };
 
-    animate(deltaTime: number){    
-      if(this.open){
-        this.sprite.animate(deltaTime);
-      } else {
-        this.sprite.currentFrame = 0;
-      }
+  /**
+   * Background music by id, see LevelSource.music.
+   */
+  const MUSIC_TRACKS: {[id: string]: MusicTrack} = {
+    castle: {
+      tempo: 240,
+      voices: [
+        { wave: 'square', volume: 0.05, notes: 'E5 . G5 . C6 . G5 . A5 . G5 . E5 . D5 .' },
+        { wave: 'triangle', volume: 0.15, notes: 'C3 . . . C3 . . . F2 . . . G2 . . .' }
+      ]
+    },
+    dungeon: {
+      tempo: 200,
+      voices: [
+        { wave: 'square', volume: 0.05, notes: 'A4 . C5 . E5 . C5 . G4 . B4 . D5 . B4 .' },
+        { wave: 'triangle', volume: 0.15, notes: 'A2 . . . A2 . . . G2 . . . G2 . . .' }
+      ]
+    },
+    throne: {
+      tempo: 260,
+      voices: [
+        { wave: 'square', volume: 0.05, notes: 'D5 D5 . F5 E5 . D5 . C#5 . . . A4 . . .' },
+        { wave: 'triangle', volume: 0.15, notes: 'D2 . D2 . D2 . D2 . A1 . A1 . A1 . C#2 .' }
+      ]
     }
-    
-    draw(ctx: CanvasRenderingContext2D): void {
-      let cropbox = this.sprite.cropbox();
-      let frameWidth = (this.sprite.image.width / this.sprite.maxFrame);
-      ctx.save();    
-      ctx.translate(0, (-this.sprite.h+15)/2);
-      ctx.drawImage(this.sprite.image,
-        /**
-         * cropbox is what needs to be cropped from original image
-         * no scalling required.
-         */
-        cropbox.position.x, 
-        cropbox.position.y,
-        frameWidth, 
-        this.sprite.image.height,
-        /**
-         * This is how the cropped image is going to be displayed.
-         * This does need to be scalled by xRatio (in this case
-         * happens in the ActorSprite class).
-         */
-        this.pos.x, 
-        this.pos.y, 
-        this.sprite.w, 
-        this.sprite.h
-      );
-      ctx.restore();
-      /**
-       * [Debug mode]
-       * Draw door's point of reference
-       * Draw sprite outline (cropbox)
-       */
-      if(GAME.debug.isOn){
-        /**
-         * Draw reference point (origin)
-         */
-        super.draw(ctx);
-        /**
-         * Draw door cropbox outline
-         */
-        ctx.save();
-        ctx.translate(0, (-this.sprite.h+15)/2);
-        ctx.beginPath()
-        ctx.strokeStyle = 'black';
-        ctx.rect(this.pos.x, this.pos.y, this.sprite.w, this.sprite.h);
-        ctx.stroke();
-        ctx.restore();
-      } 
+  };
+
+  const AUDIO_STORAGE_KEY = 'game3.audio';
+  const DEFAULT_AUDIO_SETTINGS: AudioSettings = {
+    volume: { master: 0.8, music: 0.6, sfx: 1 },
+    muted: false
+  };
+  const MUSIC_FADE = 1.5;      // s, crossfade between tracks
+  const MUSIC_LOOKAHEAD = 0.2; // s of music scheduled ahead of time
+  const NOTE_LENGTH = 0.9;     // part of a step a note lasts
+
+
+  function noteFrequency(note: string): number {
+    /**
+     * 'A4' is 440 Hz, every semitone is a 12th of an octave.
+     */
+    let match = /^([A-G])(#?)(\d)$/.exec(note);
+    if(!match){
+      throw new Error(`Unknown note "${note}"`);
     }
+    let semitone = { C: -9, D: -7, E: -5, F: -4, G: -2, A: 0, B: 2 }[match[1]] + (match[2] ? 1 : 0);
+    return 440 * Math.pow(2, (semitone + (Number(match[3]) - 4) * 12) / 12);
   }
 
-  interface GameEngineOptions {
-    gravity: number
-    scale?: number
-    player?: PlayerOptions
-    startLevel: number
-  }
 
-  interface Debug {
-    isOn: boolean
-    fps: string
-    timer: number
+  // older Safari only has the prefixed constructor
+  interface Window {
+    webkitAudioContext?: typeof AudioContext;
   }
 
-  const ONE_SECOND = 1000;
 
   /**
-   * Extending the Array class with a custom function
-   * to find an item by its constructor name.
+   * The AudioManager synthesises sound effects and music with the
+   * Web Audio API. Browsers only let audio start after a user gesture,
+   * so nothing is heard until unlock() is called from one; headless
+   * (no AudioContext) it stays silent. Volumes and mute are kept in
+   * storage, like the input bindings.
    */
-  class List<T> extends Array<T> {
-    constructor(){
-      super();
+  class AudioManager {
+    storage: SaveStorage;
+    settings: AudioSettings;
+    context: AudioContext;            // null until unlocked
+    channels: {[channel in AudioChannel]: GainNode};
+    noise: AudioBuffer;
+    track: string;                    // MUSIC_TRACKS id asked for, played once unlocked
+    playbacks: Array<MusicPlayback>;  // the current track and any fading out
+
+    constructor(storage: SaveStorage){
+      this.storage = storage;
+      this.settings = this.loadSettings();
+      this.context = null;
+      this.channels = null;
+      this.noise = null;
+      this.track = null;
+      this.playbacks = [];
     }
-    findByConstructorName(name: String): T{
-      return super.find(i => i.constructor.name === name);
+
+    unlock(){
+      /**
+       * Call from a user gesture (key press, click).
+       * Starts the music asked for so far.
+       */
+      if(this.context){
+        if(this.context.state === 'suspended') this.context.resume();
+        return;
+      }
+      let Context = typeof window !== 'undefined' && (window.AudioContext || window.webkitAudioContext);
+      if(!Context) return;
+      let context: AudioContext = new Context();
+      this.context = context;
+      let master = context.createGain();
+      master.connect(context.destination);
+      let music = context.createGain();
+      music.connect(master);
+      let sfx = context.createGain();
+      sfx.connect(master);
+      this.channels = { master, music, sfx };
+      this.applyVolume();
+      // One second of white noise, looped by every noise tone.
+      // Math.random is fine here, audio doesn't touch the simulation.
+      this.noise = context.createBuffer(1, context.sampleRate, context.sampleRate);
+      let samples = this.noise.getChannelData(0);
+      for(let i = 0; i < samples.length; i++){
+        samples[i] = Math.random() * 2 - 1;
+      }
+      if(this.track) this.startMusic(this.track);
     }
-  }
 
-  class Heart {
-    sprite: ActorSprite;
-    pos: Vector2D;
-    constructor(pos: Vector2D){
-      let img = document.getElementById('heart_idle') as HTMLImageElement;
-      this.pos = pos;
-      this.sprite = new ActorSprite(this.pos, img, 2.5);
+    play(id: string){
+      let sound = SOUND_EFFECTS[id];
+      if(!sound){
+        throw new Error(`Unknown sound "${id}"`);
+      }
+      if(!this.context || this.settings.muted) return;
+      let now = this.context.currentTime;
+      for(let tone of sound){
+        this.tone(tone, this.channels.sfx, now + (tone.delay || 0) / ONE_SECOND);
+      }
     }
-    
-    animate(deltaTime: number){
-      this.sprite.animate(deltaTime)
+
+    tone(tone: ToneSetup, output: AudioNode, time: number){
+      let context = this.context;
+      let end = time + tone.duration / ONE_SECOND;
+      let gain = context.createGain();
+      gain.gain.setValueAtTime(tone.volume, time);
+      gain.gain.exponentialRampToValueAtTime(0.001, end);
+      gain.connect(output);
+      let source: AudioScheduledSourceNode;
+      let frequency: AudioParam;
+      if(tone.wave === 'noise'){
+        let noise = context.createBufferSource();
+        noise.buffer = this.noise;
+        noise.loop = true;
+        let filter = context.createBiquadFilter();
+        filter.type = 'lowpass';
+        noise.connect(filter);
+        filter.connect(gain);
+        source = noise;
+        frequency = filter.frequency;
+      } else {
+        let oscillator = context.createOscillator();
+        oscillator.type = tone.wave;
+        oscillator.connect(gain);
+        source = oscillator;
+        frequency = oscillator.frequency;
+      }
+      frequency.setValueAtTime(tone.from, time);
+      frequency.exponentialRampToValueAtTime(tone.to, end);
+      source.start(time);
+      source.stop(end);
     }
 
-    draw(ctx: CanvasRenderingContext2D){
-      let cropbox = this.sprite.cropbox();
-      let frameWidth = (this.sprite.image.width / this.sprite.maxFrame);
-      ctx.save();
-      ctx.drawImage(this.sprite.image,
-        /**
-         * cropbox is what needs to be cropped from original image
-         * no scalling required.
-         */
-        cropbox.position.x, 
-        cropbox.position.y,
-        frameWidth, 
-        this.sprite.image.height,
-        /**
-         * This is how the cropped image is going to be displayed.
-         * This does need to be scalled by xRatio (in this case
-         * happens in the ActorSprite class).
-         */
-        this.pos.x + 22, 
-        this.pos.y + 20, 
-        this.sprite.w, 
-        this.sprite.h);
-      ctx.restore();
+    playMusic(id: string){
+      /**
+       * Crossfade to the given track, null fades out to silence.
+       * Asking for the track already on keeps it going.
+       */
+      if(id && !MUSIC_TRACKS[id]){
+        throw new Error(`Unknown music track "${id}"`);
+      }
+      if(id === this.track) return;
+      this.track = id;
+      if(!this.context) return;
+      let now = this.context.currentTime;
+      for(let playback of this.playbacks){
+        if(playback.stopTime !== Infinity) continue;
+        playback.gain.gain.setValueAtTime(playback.gain.gain.value, now);
+        playback.gain.gain.linearRampToValueAtTime(0, now + MUSIC_FADE);
+        playback.stopTime = now + MUSIC_FADE;
+      }
+      if(id) this.startMusic(id);
+    }
+
+    startMusic(id: string){
+      let now = this.context.currentTime;
+      let gain = this.context.createGain();
+      gain.gain.setValueAtTime(0, now);
+      gain.gain.linearRampToValueAtTime(1, now + MUSIC_FADE);
+      gain.connect(this.channels.music);
+      this.playbacks.push({ track: MUSIC_TRACKS[id], gain, step: 0, nextTime: now, stopTime: Infinity });
+    }
+
+    update(){
+      /**
+       * Schedule the music a little ahead of time. Call every frame;
+       * scheduling on the AudioContext's clock keeps it in time
+       * whatever the frame rate.
+       */
+      if(!this.context) return;
+      let now = this.context.currentTime;
+      for(let playback of this.playbacks){
+        let track = playback.track;
+        let stepTime = 60 / track.tempo;
+        // Skip what was missed (e.g. in a background tab) rather than play it all at once
+        while(playback.nextTime < now){
+          playback.step++;
+          playback.nextTime += stepTime;
+        }
+        while(playback.nextTime < now + MUSIC_LOOKAHEAD && playback.nextTime < playback.stopTime){
+          for(let voice of track.voices){
+            let notes = voice.notes.split(' ');
+            let note = notes[playback.step % notes.length];
+            if(note === '.') continue;
+            let frequency = noteFrequency(note);
+            let tone: ToneSetup = {
+              wave: voice.wave,
+              from: frequency,
+              to: frequency,
+              duration: stepTime * NOTE_LENGTH * ONE_SECOND,
+              volume: voice.volume
+            };
+            this.tone(tone, playback.gain, playback.nextTime);
+          }
+          playback.step++;
+          playback.nextTime += stepTime;
+        }
+      }
+      for(let playback of this.playbacks.filter(playback => playback.stopTime <= now)){
+        playback.gain.disconnect();
+        this.playbacks.splice(this.playbacks.indexOf(playback), 1);
+      }
+    }
+
+    setVolume(channel: AudioChannel, volume: number){
+      this.settings.volume[channel] = Math.max(0, Math.min(1, volume));
+      this.applyVolume();
+      this.saveSettings();
+    }
+
+    toggleMute(): boolean {
+      this.settings.muted = !this.settings.muted;
+      this.applyVolume();
+      this.saveSettings();
+      return this.settings.muted;
+    }
+
+    applyVolume(){
+      if(!this.channels) return;
+      let volume = this.settings.volume;
+      this.channels.master.gain.value = this.settings.muted ? 0 : volume.master;
+      this.channels.music.gain.value = volume.music;
+      this.channels.sfx.gain.value = volume.sfx;
+    }
 
+    loadSettings(): AudioSettings {
+      /**
+       * Saved settings are merged on top of the defaults,
+       * the same as input bindings.
+       */
+      let settings: AudioSettings = JSON.parse(JSON.stringify(DEFAULT_AUDIO_SETTINGS));
+      try {
+        let saved = JSON.parse(this.storage.getItem(AUDIO_STORAGE_KEY));
+        if(saved){
+          Object.assign(settings.volume, saved.volume);
+          settings.muted = !!saved.muted;
+        }
+      } catch (e) {
+        console.warn('Ignoring saved audio settings', e);
+      }
+      return settings;
+    }
+
+    saveSettings(){
+      this.storage.setItem(AUDIO_STORAGE_KEY, JSON.stringify(this.settings));
     }
   }
 
 
   class GameEngine {
-    canvas: HTMLCanvasElement;
+    canvas: CanvasSize;
+    camera: Camera;
+    assets: AssetSource;
     gravity: Vector2D;
     player: Player;
+    input: InputSource;
+    recorder: InputRecorder;
+    replay: InputReplay;
+    replayResult: string; // shown for a while after a replay ends
+    replayResultTimer: number;
+    tick: number;         // simulation steps since the game or recording started
+    checksum: number;     // player path since the recording/replay started
+    seed: number;
+    random: Random;
     background: MapSprite;
-    debug: Debug
-    blocks: List<any>; // [ ] no anys
+    debug: DebugTools;
+    world: EntityWorld; // everything in the current level
     startLevel: number;
     currentLevel: number;
+    unlockedLevels: Array<number>; // levels that can be played from the start
+    score: number;
+    levelStartScore: number;        // score when the current level was entered
+    collectibles: CollectibleCount;
+    bonusTimer: number;             // ms left showing the collect-all bonus
+    levelTime: number;              // ms played on the current level
+    hud: Hud;
+    dialogue: Dialogue;
+    editor: LevelEditor;
+    audio: AudioManager;
+    saves: SaveStore;
+    saveSlot: number;               // slot auto-saves go to
+    levels: {[level: number]: LevelMap};
+    state: GameState;
+    transition: LevelTransition;
+    respawnTimer: number;
+    menuIndex: number; // selected GAME_OVER_OPTIONS entry
+    accumulator: number;
+    queuedEvents: Array<ActionEvent>; // read while paused, handled on the next step
     xRatio: number;
     yRatio: number;
 
-    constructor(canvas: HTMLCanvasElement, args: GameEngineOptions) {
-      this.debug = {
-        isOn: true,
-        timer: 0,
-        fps: '0'
-      }
-      this.currentLevel = 1;
+    constructor(canvas: CanvasSize, args: GameEngineOptions) {
+      this.debug = new DebugTools(this);
       this.startLevel = args.startLevel;
+      this.currentLevel = this.startLevel;
       this.canvas = canvas;
+      this.camera = new Camera(canvas);
       this.gravity = new Vector2D(0, args.gravity);
-      // Calculate the ratio of the image and the canvas (makes window responsive)
-      this.initBackground();
-      this.xRatio = this.canvas.width / this.background.imageSetup.sw;
-      this.yRatio = this.canvas.height / this.background.imageSetup.sh;
+      this.assets = args.assets || new DomAssets();
+      this.levels = args.levels || {};
+      this.unlockedLevels = [this.startLevel];
+      this.score = 0;
+      this.levelStartScore = 0;
+      this.collectibles = { total: 0, collected: 0, score: 0 };
+      this.bonusTimer = 0;
+      this.levelTime = 0;
+      let storage = args.storage || (typeof window !== 'undefined' ? window.localStorage : new MemoryStorage());
+      this.saves = new SaveStore(storage);
+      this.saveSlot = this.saves.lastSlot;
+      this.audio = new AudioManager(storage);
+      this.world = new EntityWorld();
+      this.dialogue = new Dialogue(this);
+      this.editor = new LevelEditor(this);
+      this.initHud();
+      this.state = 'loading';
+      this.transition = null;
+      this.respawnTimer = 0;
+      this.menuIndex = 0;
+      this.accumulator = 0;
+      this.queuedEvents = [];
+
+      this.input = args.input || new InputManager(window, storage);
+      this.recorder = null;
+      this.replay = null;
+      this.replayResult = '';
+      this.replayResultTimer = 0;
+      this.tick = 0;
+      this.checksum = CHECKSUM_SEED;
+      this.reseed(Date.now());
+    }
+
+    reseed(seed: number){
+      this.seed = seed >>> 0;
+      this.random = new Random(this.seed);
+    }
+
+    startRecording(){
+      /**
+       * Recordings always start from a fresh copy of the current
+       * level so that a replay can rebuild the exact same state.
+       * Held actions are pressed again here, as the replay will do.
+       */
+      if(this.replay) return;
+      this.restartSession(this.currentLevel, Date.now());
+      let held = PLAYER_ACTIONS.filter(action => this.input.isHeld(action));
+      this.recorder = new InputRecorder(this.currentLevel, this.seed, this.canvas, held);
+      held.forEach(action => this.handleAction(action, true));
+    }
+
+    restartSession(level: number, seed: number){
+      /**
+       * Shared start of a recording and its replay. newGame() keeps
+       * what a level change keeps, so the rest is cleared here.
+       */
+      this.reseed(seed);
+      this.transition = null;
+      this.newGame(level);
+      this.player.invulnerableTimer = 0;
+      this.player.dropTimer = 0;
+      this.player.grounded = false;
+      this.player.ground = null;
+      this.tick = 0;
+      this.checksum = CHECKSUM_SEED;
+    }
+
+    stopRecording(download: boolean = true): Recording {
+      if(!this.recorder) return null;
+      let recording = this.recorder.finish(this.tick, this.player, this.checksum);
+      this.recorder = null;
+      if(download){
+        this.downloadRecording(recording);
+      }
+      return recording;
+    }
+
+    downloadRecording(recording: Recording){
+      this.downloadJSON(`game3-level${recording.level}-${recording.checksum}.json`, recording);
+    }
+
+    downloadJSON(filename: string, data: Recording | SaveData){
+      this.downloadFile(filename, JSON.stringify(data), 'application/json');
+    }
+
+    downloadFile(filename: string, text: string, type: string){
+      let blob = new Blob([text], { type });
+      let link = document.createElement('a');
+      link.href = URL.createObjectURL(blob);
+      link.download = filename;
+      link.click();
+      URL.revokeObjectURL(link.href);
+    }
+
+    saveData(): SaveData {
+      return {
+        version: SAVE_VERSION,
+        savedAt: new Date().toISOString(),
+        progress: {
+          unlockedLevels: [...this.unlockedLevels],
+          currentLevel: this.currentLevel,
+          lives: this.player.lives,
+          score: this.score
+        },
+        settings: {
+          debug: this.debug.isOn
+        }
+      };
+    }
+
+    saveGame(slot: number = this.saveSlot){
+      this.saves.write(slot, this.saveData());
+      this.saveSlot = slot;
+    }
+
+    autoSave(){
+      /**
+       * Replays aren't the player's own progress, so they don't save.
+       * Failing to save (e.g. storage full) shouldn't stop the game.
+       */
+      if(this.replay) return;
+      try {
+        this.saveGame();
+      } catch (e) {
+        console.warn('Could not save the game', e);
+      }
+    }
+
+    loadGame(slot: number = this.saveSlot): boolean {
+      /**
+       * Continue from a save slot. Auto-saves go to this slot from now on,
+       * even when it is empty (false is returned and nothing else changes).
+       */
+      let data = this.saves.read(slot);
+      this.saveSlot = slot;
+      if(!data) return false;
+      this.applySave(data);
+      return true;
+    }
+
+    applySave(data: SaveData){
+      let progress = data.progress;
+      // Levels that don't exist (anymore) are dropped
+      this.unlockedLevels = progress.unlockedLevels.filter(level => this.levels[level]);
+      if(!this.unlockedLevels.includes(this.startLevel)){
+        this.unlockedLevels.unshift(this.startLevel);
+      }
+      this.score = progress.score;
+      this.debug.isOn = data.settings.debug;
+      if(this.recorder) this.stopRecording(false);
+      this.transition = null;
+      let level = this.levels[progress.currentLevel] ? progress.currentLevel : this.startLevel;
+      this.player.health = Math.max(1, Math.min(this.player.maxHealth, progress.lives));
+      this.loadLevel(level);
+      this.state = 'playing';
+    }
+
+    exportSave(slot: number = this.saveSlot){
+      /**
+       * Download a save slot as a file (the current progress if it's empty).
+       * Dropping the file on the canvas imports it.
+       */
+      let data = this.saves.read(slot) || this.saveData();
+      this.downloadJSON(`game3-save-slot${slot}.json`, data);
+    }
+
+    importSave(data: unknown){
+      /**
+       * Write a save (e.g. from an exported file) to the current slot
+       * and continue from it. Throws if it isn't a valid save.
+       */
+      let save = migrateSave(data);
+      this.saves.write(this.saveSlot, save);
+      this.applySave(save);
+    }
+
+    unlockLevel(level: number){
+      if(!this.unlockedLevels.includes(level)){
+        this.unlockedLevels.push(level);
+        this.unlockedLevels.sort((a, b) => a - b);
+      }
+    }
+
+    playLevel(level: number){
+      /**
+       * Start an unlocked level with all lives.
+       */
+      if(!this.unlockedLevels.includes(level)){
+        throw new Error(`Level ${level} is not unlocked yet`);
+      }
+      this.transition = null;
+      this.newGame(level);
+    }
+
+    startReplay(recording: Recording){
+      if(this.recorder) this.stopRecording(false);
+      if(this.canvas.width !== recording.canvas.width || this.canvas.height !== recording.canvas.height){
+        console.warn('Replay was recorded on a different canvas size, it will probably diverge.');
+      }
+      this.replay = new InputReplay(recording);
+      this.replayResult = '';
+      this.restartSession(recording.level, recording.seed);
+      this.accumulator = 0;
+    }
 
-      // Add event listeners for key presses
-      window.addEventListener('keydown', e => this.handleKeyPressed(e));
-      window.addEventListener('keyup', e => this.handleKeyReleased(e));
+    finishReplay(){
+      let ok = this.replay.verify(this.checksum);
+      this.replayResult = ok ? 'Replay matched the recording' : 'Replay diverged from the recording!';
+      this.replayResultTimer = REPLAY_RESULT_TIME;
+      if(!ok){
+        console.warn(this.replayResult, 'expected', this.replay.recording.final, 'got', this.player.pos);
+      }
+      this.replay = null;
     }
 
+    async loadLevels(){
+      /**
+       * Levels live in the Tiled maps, so they have to be fetched
+       * before the game can start. A failure names the level and map.
+       */
+      let loader = new TiledMapLoader();
+      for(let level in this.LEVELS){
+        let source = this.LEVELS[level];
+        try {
+          this.levels[level] = await loader.load(source);
+        } catch(error){
+          throw new Error(`Could not load level ${level} (${source.map}): ${error.message}`);
+        }
+      }
+    }
 
     start(args: PlayerOptions){
-      this.initBlocks();
+      this.buildLevel();
       this.initPlayer(args);
-      this.initHearts()
+      this.playLevelMusic();
+      this.levelTime = 0;
+      this.state = 'playing';
+    }
+
+    initHud(){
+      this.hud = new Hud(this);
+      this.hud.add(new LivesBar(this));
+      this.hud.add(new ScoreCounter(this));
+      this.hud.add(new LevelInfo(this));
+      this.hud.add(new BonusBanner(this));
+      this.hud.add(new BossHealthBar(this));
+      this.hud.add(new DialogueBox(this));
+      this.hud.add(new EditorPanel(this));
+      this.hud.add(new FrameStatsPanel(this));
+      this.hud.add(new InspectorPanel(this));
     }
 
-    initHearts(){
-      // Create Hearts
-      for (let i = 0; i < this.player.lives; i++) {
-        this.blocks.push(new Heart(new Vector2D((22*i), 0)))      
+    get LEVELS(): {[level: number]: LevelSource} {
+      return {
+        1: {
+          map: './tiled/maps/Level 1.tmx',
+          background: './img/backgroundLevel1.png',
+          music: 'castle'
+        },
+        2: {
+          map: './tiled/maps/Level 2.tmx',
+          background: './img/backgroundLevel2.png',
+          music: 'dungeon'
+        },
+        3: {
+          map: './tiled/maps/Level 3.tmx',
+          background: './img/backgroundLevel3.png',
+          music: 'throne'
+        }
       }
     }
 
-    get LEVELS(){
-      
-      return {
-        1: {
-          collisions: [
-            [0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0],
-            [0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0],
-            [0, 292, 292, 292, 292, 292, 292, 292, 292, 292, 292, 292, 292, 292, 292, 0],
-            [0, 292, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 292, 0],
-            [0, 292, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 292, 0],
-            [0, 292, 292, 267, 0, 0, 0, 0, 0, 0, 0, 0, 290, 0, 292, 0],
-            [0, 292, 292, 292, 292, 292, 292, 292, 292, 292, 292, 292, 292, 292, 292, 0],
-            [0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0],
-            [0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0]
-          ],
-          image: {
-            src: './img/backgroundLevel1.png',
-            sw: 1024, // [ ] find a way to remove this
-            sh: 576   // and this.
-          },
-          tiles: {
-            xCount: 16,
-            yCount: 9,
-            width: 64,
-            flag: 292
-          }
-        }
-      }
+    get level(): LevelMap {
+      return this.levels[this.currentLevel];
+    }
+
+    get lastLevel(): number {
+      return Math.max(...Object.keys(this.LEVELS).map(Number));
+    }
+
+    loadLevel(level: number){
+      /**
+       * Tear down the current level and build the given one.
+       * The player keeps its lives and score, it is only moved to the new spawn.
+       */
+      this.currentLevel = level;
+      this.levelStartScore = this.score;
+      this.levelTime = 0;
+      this.dialogue.reset();
+      this.buildLevel();
+      this.spawnPlayer();
+      this.playLevelMusic();
+    }
+
+    buildLevel(){
+      /**
+       * Fill the world with everything the current LevelMap holds.
+       */
+      this.initBackground();
+      this.initBlocks();
+      this.initEnemies();
+      this.initCollectibles();
+      this.initCrates();
+      this.initCannons();
+      this.initDialogueTriggers();
+    }
+
+    playLevelMusic(){
+      let source = this.LEVELS[this.currentLevel];
+      this.audio.playMusic(source && source.music || null);
     }
 
     initBackground(){
+      let level = this.level;
       this.background = new MapSprite({
-        imageSetup: this.LEVELS[this.startLevel].image,
-        tiles: this.LEVELS[this.startLevel].tiles
+        image: this.assets.image(level.background),
+        imageSetup: {
+          src: level.background,
+          sw: level.pixelWidth,
+          sh: level.pixelHeight
+        },
+        tiles: {
+          xCount: level.width,
+          yCount: level.height,
+          width: level.tileWidth
+        }
       });
+      /**
+       * Calculate the ratio of the screen and the canvas (makes window responsive).
+       * The screen shows VIEW_TILES of the level whatever its size.
+       */
+      this.xRatio = this.canvas.width / (VIEW_TILES.x * level.tileWidth);
+      this.yRatio = this.canvas.height / (VIEW_TILES.y * level.tileHeight);
+      this.camera.bounds = { x: 0, y: 0, w: this.worldWidth, h: this.worldHeight };
+    }
+
+    get worldWidth(): number {
+      return this.level.pixelWidth * this.xRatio;
+    }
+
+    get worldHeight(): number {
+      return this.level.pixelHeight * this.yRatio;
+    }
+
+    get ratio(): Vector2D {
+      return new Vector2D(this.xRatio, this.yRatio);
     }
     
     initPlayer(options: PlayerOptions){
@@ -844,13 +6709,30 @@
         game: this, // add reference to game object
         ...options
       });
+      this.spawnPlayer();
+
+      /**
+       * Player dimensions should be responsive to the 
+       * canvas dimensions.
+       */
+      this.player.width *= this.xRatio;
+      this.player.height *= this.yRatio;
+    }
+
+    spawnPlayer(){
+      this.player.stop();
+      this.player.attacking = false;
+      this.player.knockbackTimer = 0;
+      this.player.face('right');
+      this.player.animator.play('idle', true);
 
       /**
        * There should only be one spawn place per game level.
        * Place the player on this location when game starts or
        * when player respawns.
+       * Levels without a SpawnPlace start the player at the door.
        */
-      let block = this.blocks.findByConstructorName('SpawnPlace') as SpawnPlace;
+      let block = this.world.first('spawn') || this.world.first('door');
       if(block){
         /**
          * Exact positoin is offset by half the player's width
@@ -865,229 +6747,733 @@
          */
         this.player.pos.y = block.pos.y;
       }
+      // Don't interpolate from the old position
+      this.player.prevPos = new Vector2D(this.player.pos.x, this.player.pos.y);
+      this.camera.snapTo(this.player.hitbox());
+      // Loading a level empties the world, the player is carried over
+      this.world.add(this.player);
+    }
 
+    initBlocks(){
+      let level = this.level;
+      let tileW = this.background.tiles.width;
+      let w = Math.floor(tileW * this.xRatio);       // w 
+      let h = Math.floor(tileW * this.yRatio);       // h 
+      this.world.reset(Math.max(w, h));
+      for(let layer of level.layers){
+        // loop through the 2D array in columns and rows
+        for(let col = 0; col < layer.width; col++){
+          for(let row = 0; row < layer.height; row++){
+            let x = Math.floor(tileW * col * this.xRatio); // x position
+            let y = Math.floor(tileW * row * this.yRatio); // y position
+            this.addBlock(level.flagOf(layer.data[row][col]), x, y, w, h);
+          }
+        }
+      }
       /**
-       * Player dimensions should be responsive to the 
-       * canvas dimensions.
+       * Tile objects are anchored at their bottom-left corner in Tiled.
+       * Line them up with the tile they sit on so they behave
+       * the same as if they had been placed on a tile layer.
        */
-      this.player.width *= this.xRatio;
-      this.player.height *= this.yRatio;
+      for(let group of level.objectGroups){
+        for(let object of group.objects){
+          let x = Math.floor(object.x * this.xRatio);
+          let y = Math.floor((object.y - level.tileHeight) * this.yRatio);
+          this.addBlock(level.flagOf(object.gid), x, y, w, h);
+        }
+      }
     }
 
-    initBlocks(){
-      this.blocks = new List<CollisionBlock>();
-      // loop through the 2D array in columns and rows
-      for(let col = 0; col < this.background.tiles.xCount; col++){
-        for(let row = 0; row < this.background.tiles.yCount; row++){
-          // Get an entry value
-          let block = this.LEVELS[this.currentLevel].collisions[row][col];
-          let tileW = this.background.tiles.width;
-          let x = Math.floor(tileW * col * this.xRatio); // x position
-          let y = Math.floor(tileW * row * this.yRatio); // y position
-          let w = Math.floor(tileW * this.xRatio);       // w 
-          let h = Math.floor(tileW * this.yRatio);       // h 
-          if(block === 292){
-            this.blocks.push(new CollisionBlock(x, y, w, h));
+    initEnemies(){
+      /**
+       * Enemies are plain objects on the map whose class
+       * is one of the ENEMY_TYPES. Gravity drops them to the floor.
+       */
+      for(let group of this.level.objectGroups){
+        for(let object of group.objects){
+          if(!ENEMY_TYPES[object.type]) continue;
+          let pos = new Vector2D(object.x * this.xRatio, object.y * this.yRatio);
+          this.world.add(new Enemy(this, object.type, pos));
+        }
+      }
+    }
+
+    initCollectibles(){
+      /**
+       * Collectibles are plain objects on the map whose class
+       * is one of the COLLECTIBLE_TYPES. They don't fall.
+       */
+      this.collectibles = { total: 0, collected: 0, score: 0 };
+      this.bonusTimer = 0;
+      for(let group of this.level.objectGroups){
+        for(let object of group.objects){
+          if(!COLLECTIBLE_TYPES[object.type]) continue;
+          let pos = new Vector2D(object.x * this.xRatio, object.y * this.yRatio);
+          this.world.add(new Collectible(this, object.type, pos));
+          this.collectibles.total++;
+        }
+      }
+    }
+
+    initCrates(){
+      /**
+       * Objects of class "Box", standing on the bottom of their
+       * rectangle. The "drop" custom property is a COLLECTIBLE_TYPES
+       * key the crate leaves behind when it breaks. Those count
+       * towards the level's collectibles, so call this after
+       * initCollectibles().
+       */
+      for(let group of this.level.objectGroups){
+        for(let object of group.objects){
+          if(object.type !== 'Box') continue;
+          let drop = (object.properties || {}).drop || null;
+          if(drop && !COLLECTIBLE_TYPES[drop]){
+            console.warn(`Box object ${object.id} drops an unknown collectible "${drop}"`);
+            drop = null;
           }
-          if(block === 267) {
-            this.blocks.push(new SpawnPlace(x, y));
+          let bottom = (object.y + object.height) * this.yRatio;
+          let pos = new Vector2D(object.x * this.xRatio, bottom - CRATE.height * this.yRatio);
+          this.world.add(new Crate(this, pos, drop));
+          if(drop) this.collectibles.total++;
+        }
+      }
+    }
+
+    initCannons(){
+      /**
+       * Objects of class "Cannon", standing on the bottom of
+       * their rectangle. Custom properties:
+       * facing   - "left" (default) or "right"
+       * interval - ms between shots; without it the cannon
+       *            fires when it has a clear shot at the player
+       */
+      for(let group of this.level.objectGroups){
+        for(let object of group.objects){
+          if(object.type !== 'Cannon') continue;
+          let properties = object.properties || {};
+          let bottom = (object.y + object.height) * this.yRatio;
+          let pos = new Vector2D(object.x * this.xRatio, bottom - CANNON.height * this.yRatio);
+          this.world.add(new Cannon(this, pos, properties.facing || 'left', Number(properties.interval || 0)));
+        }
+      }
+    }
+
+    initDialogueTriggers(){
+      /**
+       * Objects of class "Dialogue" are trigger areas,
+       * their name is the CONVERSATIONS id to start.
+       */
+      for(let group of this.level.objectGroups){
+        for(let object of group.objects){
+          if(object.type !== 'Dialogue') continue;
+          if(!CONVERSATIONS[object.name]){
+            console.warn(`Dialogue object ${object.id} has no conversation "${object.name}"`);
+            continue;
           }
-          if(block === 290) {
-            this.blocks.push(new Door(x, y));          
+          let box = {
+            x: object.x * this.xRatio,
+            y: object.y * this.yRatio,
+            w: object.width * this.xRatio,
+            h: object.height * this.yRatio
+          };
+          this.world.add(new DialogueTrigger(this, box, object.name));
+        }
+      }
+    }
+
+    collectPickups(){
+      let hitbox = this.player.hitbox();
+      for(let item of this.world.all('collectible')){
+        if(!item.collected && overlaps(hitbox, item.hitbox())){
+          this.collect(item);
+        }
+      }
+    }
+
+    collect(item: Collectible){
+      /**
+       * Give the player what the collectible is worth.
+       * Collecting everything in the level multiplies the
+       * points its collectibles gave.
+       */
+      item.collect();
+      let lives = Math.min(item.setup.lives, this.player.maxHealth - this.player.health);
+      this.player.health += lives;
+      this.score += item.setup.score;
+      let count = this.collectibles;
+      count.score += item.setup.score;
+      count.collected++;
+      if(count.collected === count.total){
+        this.score += count.score * (COLLECT_ALL_MULTIPLIER - 1);
+        this.bonusTimer = BONUS_MESSAGE_TIME;
+      }
+    }
+
+    clearLine(from: Vector2D, to: Vector2D): boolean {
+      /**
+       * Is there no CollisionBlock between the two points?
+       * Checked every LINE_OF_SIGHT_STEP px along the line.
+       */
+      let steps = Math.ceil(from.distanceTo(to) / LINE_OF_SIGHT_STEP);
+      for(let i = 1; i < steps; i++){
+        let point = from.add(to.subtract(from).multiply(i / steps));
+        if(this.solidAt(point.x, point.y)) return false;
+      }
+      return true;
+    }
+
+    solidAt(x: number, y: number): boolean {
+      /**
+       * Is the given canvas point inside a CollisionBlock?
+       */
+      return this.world.solids.query({ x, y, w: 0, h: 0 }).some(block => block.contains(x, y));
+    }
+
+    addBlock(flag: string, x: number, y: number, w: number, h: number){
+      switch (flag) {
+        case 'collision':
+          this.world.add(new CollisionBlock(x, y, w, h));
+          break;
+        case 'platform':
+          this.world.add(new OneWayPlatform(x, y, w, h));
+          break;
+        case 'spawn':
+          this.world.add(new SpawnPlace(x, y));
+          break;
+        case 'door':
+          this.world.add(new Door(this, x, y));
+          break;
+        default:
+          if(SLOPE_TILES[flag]){
+            this.world.add(new Slope(x, y, w, h, SLOPE_TILES[flag]));
           }
+      }
+    }
+
+    handleInput(){
+      /**
+       * Read the input once per step so actions always
+       * land on a simulation step boundary.
+       */
+      let events = this.queuedEvents.concat(this.input.poll());
+      this.queuedEvents = [];
+      // Playback actions are about watching the game, they are never recorded
+      events.filter(e => PLAYBACK_ACTIONS.includes(e.action)).forEach(e => this.handleAction(e.action, e.pressed));
+      events = events.filter(e => !PLAYBACK_ACTIONS.includes(e.action));
+      if(this.replay){
+        // Keyboard only toggles debug mode while replaying
+        events.filter(e => e.action === 'toggleDebug').forEach(e => this.handleAction(e.action, e.pressed));
+        events = this.replay.poll(this.tick);
+      }
+      for(let event of events){
+        this.handleAction(event.action, event.pressed);
+        // After handling, so events following the start of a recording are kept
+        if(this.recorder){
+          this.recorder.record(this.tick, [event]);
         }
       }
+      if(this.state === 'playing'){
+        this.updatePlayerMovement();
+      }
     }
 
-    handleKeyReleased(e: KeyboardEvent) {
+    pollPlayback(){
       /**
-       * If user releases left/right arrow key
-       * stop the player from moving and
-       * set the sprite back to idle.
+       * Nothing is stepped while paused, so the input is read here
+       * to resume or step. Debug mode can still be turned off (which
+       * resumes too); other actions wait for the next step.
        */
-      let released = [
-        'ArrowRight', 'ArrowLeft', 'ArrowUp', 'a'
-      ].find(s => s == e.key);
-      if (released) {
-        this.player.stop();
-        if(this.player.direction == 'left') {
-          this.player.sprite.swapSprite(this.player.player_images.idle_left);
+      for(let event of this.input.poll()){
+        if(PLAYBACK_ACTIONS.includes(event.action) || event.action === 'toggleDebug'){
+          this.handleAction(event.action, event.pressed);
         } else {
-          this.player.sprite.swapSprite(this.player.player_images.idle_right);
+          this.queuedEvents.push(event);
         }
-        if(e.key == 'ArrowUp'){
-          let door = this.blocks.findByConstructorName('Door') as Door;
-          door.open = false;
+      }
+    }
+
+    controlPlayback(action: InputAction){
+      /**
+       * A replay has its own playback. Otherwise it is the
+       * debug tools', which only work in debug mode.
+       */
+      let playback: Playback = this.replay || this.debug;
+      if(playback === this.debug && !this.debug.isOn) return;
+      switch (action) {
+        case 'pause':
+          playback.paused = !playback.paused;
+          break;
+        case 'step':
+          if(playback.paused) playback.stepsQueued++;
+          break;
+        case 'slower':
+        case 'faster': {
+          let speeds = playback.speeds;
+          let i = speeds.indexOf(playback.speed) + (action === 'faster' ? 1 : -1);
+          playback.speed = speeds[Math.max(0, Math.min(speeds.length - 1, i))];
+          break;
         }
       }
     }
 
-    handleKeyPressed(e: KeyboardEvent) {
-      switch (e.key) {
-        case ' ':
+    get inputSource(): InputSource | InputReplay {
+      return this.replay || this.input;
+    }
+
+    handleAction(action: InputAction, pressed: boolean) {
+      /**
+       * [Debug Mode]
+       * Toggle debug mode (default key "d")
+       * Works in every game state.
+       */
+      if(action === 'toggleDebug'){
+        if(pressed) this.debug.toggle();
+        return;
+      }
+      if(PLAYBACK_ACTIONS.includes(action)){
+        if(pressed) this.controlPlayback(action);
+        return;
+      }
+      if(action === 'toggleMute'){
+        if(pressed) this.audio.toggleMute();
+        return;
+      }
+      if(action === 'toggleEditor'){
+        if(pressed) this.editor.toggle();
+        return;
+      }
+      if(action === 'toggleRecording'){
+        if(pressed && !this.replay){
+          this.recorder ? this.stopRecording() : this.startRecording();
+        }
+        return;
+      }
+      if(this.state === 'gameOver'){
+        if(pressed) this.handleGameOverAction(action);
+        return;
+      }
+      if(this.state === 'talking'){
+        if(pressed && (action === 'confirm' || action === 'attack')) this.dialogue.advance();
+        return;
+      }
+      if(this.state === 'editing'){
+        if(pressed && (action === 'prevTool' || action === 'nextTool')){
+          this.editor.selectTool(action === 'nextTool' ? 1 : -1);
+        }
+        return;
+      }
+      if(this.state !== 'playing') return;
+      if(!pressed){
+        if(action === 'interact'){
+          let door = this.world.first('door');
+          if(door) door.open = false;
+        }
+        return;
+      }
+      switch (action) {
+        case 'jump':
           this.player.jump();
           break;
-        case 'ArrowLeft':
-          this.player.move('ArrowLeft');
-          break;
-        case 'ArrowRight':
-          this.player.move('ArrowRight')
+        case 'drop':
+          this.player.dropDown();
           break;
-        case 'ArrowUp':
-          let door = this.blocks.findByConstructorName('Door') as Door;
+        case 'interact':
+          let door = this.world.first('door');
           if(door){
             let distanceToDoor = this.player.pos.distanceTo(door.pos);
             if(this.player.pos.x >= door.pos.x && distanceToDoor < this.player.width){
-              door.open = true
-              this.player.enterDoor();
+              this.enterDoor(door);
             }
           }
           break;
-        case 'a':
+        case 'attack':
           this.player.attack();
           break;
-        /**
-         * [Debug Mode]
-         * Toggle debug mode by pressing "d"
-         */
-        case 'd':
-          this.debug.isOn = !this.debug.isOn;
-          break
       }
     }
 
-    checkCanvasCollision(p: Player) {
-      let playerSides = {
-        left: p.pos.x,
-        right: p.pos.x + p.width,
-        up: p.pos.y,
-        down: p.pos.y + p.height
-      }
-      let hasHitLeftSide = playerSides.left <= 0;
-      let hasHitUpSide = playerSides.up <= 0;
-      let hasHitRightSide = playerSides.right >= this.canvas.width;
+    updatePlayerMovement(){
       /**
-       * No need to check down side as applyGravity() already does it.
+       * Movement follows whatever is held right now, so releasing
+       * one direction while still holding the other keeps moving.
        */
-      let hasHitDownSide = playerSides.down + p.height >= this.canvas.height;
-      if (hasHitLeftSide) {
-        this.player.pos.x = 0;
-        this.player.vel.x = 0;
+      let left = this.inputSource.isHeld('moveLeft');
+      let right = this.inputSource.isHeld('moveRight');
+      if(left !== right){
+        this.player.move(left ? 'left' : 'right');
+      } else if(this.player.vel.x !== 0 && this.player.knockbackTimer === 0){
+        this.player.halt();
       }
-      if (hasHitUpSide) {
-        this.player.vel.y = 0;
-        this.player.pos.y = 0;
+    }
+
+    playerDied(){
+      /**
+       * The player already lost the life (health) at this point.
+       * Play the dead animation, then respawn or end the game.
+       */
+      this.state = 'dying';
+      this.respawnTimer = RESPAWN_DELAY;
+      this.player.die();
+      this.dialogue.say(this.player, 'dead');
+      this.camera.shake(HIT_SHAKE.magnitude * this.yRatio, HIT_SHAKE.duration);
+    }
+
+    updateDeath(stepTime: number){
+      if(!this.player.sprite.finished) return;
+      this.respawnTimer = Math.max(0, this.respawnTimer - stepTime);
+      if(this.respawnTimer > 0) return;
+      if(this.player.lives > 0){
+        this.respawn();
+      } else {
+        this.state = 'gameOver';
+        this.menuIndex = 0;
       }
-      if (hasHitRightSide) {
-        this.player.vel.x = 0;
-        this.player.pos.x = this.canvas.width - this.player.width;
+    }
+
+    respawn(){
+      this.spawnPlayer();
+      // Give the player a moment before enemies can hit again
+      this.player.invulnerableTimer = this.player.invulnerableTime;
+      this.state = 'playing';
+    }
+
+    checkPits(){
+      /**
+       * There is no floor below the level.
+       * Falling out of the level costs a life; enemies are just gone.
+       */
+      this.world.removeWhere('enemy', e => e.pos.y > this.worldHeight);
+      if(this.state === 'playing' && this.player.pos.y > this.worldHeight){
+        this.player.health = Math.max(0, this.player.health - 1);
+        this.playerDied();
       }
     }
 
-    applyGravity(body: Player) {
-      let bottom = body.pos.y + body.height;
-      if (bottom < this.canvas.height) {
-        body.vel = body.vel.add(this.gravity);
-      } else {
-        /**
-         * Should only set vel.y to 0; Leave vel.x unchanged.
-         */
-        body.vel.y = 0;
-        /**
-         * Y-vel may contain more pixels than the diference between
-         * the bottom side of the player and the canvas height, making the player sink below y-axis.
-         * To prevent this, we manually set the player position on the ground.
-        */
-        body.pos.y = this.canvas.height - body.height;
+    handleGameOverAction(action: InputAction){
+      switch (action) {
+        case 'menuUp':
+          this.menuIndex = (this.menuIndex + GAME_OVER_OPTIONS.length - 1) % GAME_OVER_OPTIONS.length;
+          break;
+        case 'menuDown':
+          this.menuIndex = (this.menuIndex + 1) % GAME_OVER_OPTIONS.length;
+          break;
+        case 'confirm':
+          if(GAME_OVER_OPTIONS[this.menuIndex] === 'Restart') this.levelStartScore = 0;
+          this.newGame(GAME_OVER_OPTIONS[this.menuIndex] === 'Continue' ? this.currentLevel : this.startLevel);
+          break;
       }
     }
 
-    render(ctx: CanvasRenderingContext2D, deltaTime: number): void {
-      // Add deltaTime to timer;
-      this.debug.timer += deltaTime;
-      
+    newGame(level: number){
       /**
-       * Background
+       * Continue  - replay the level the player died on
+       * Restart   - go back to the first level
+       * Both start again with all lives, and without the points
+       * scored since the level was entered.
        */
-      this.background.draw(ctx);
-      
+      this.player.health = this.player.maxHealth;
+      this.score = this.levelStartScore;
+      this.loadLevel(level);
+      this.state = 'playing';
+    }
+
+    drawRecordingStatus(ctx: CanvasRenderingContext2D, deltaTime: number){
       /**
-       * Extras:
-       * Lives bar
+       * Top right corner: recording indicator, replay
+       * progress and controls, or the result of the last replay.
        */
+      let text = '';
+      if(this.recorder){
+        text = `● REC ${(this.tick * TIME_STEP / ONE_SECOND).toFixed(1)}s`;
+      } else if(this.replay){
+        let status = this.replay.paused ? 'paused (n: step)' : `${this.replay.speed}x`;
+        text = `REPLAY ${this.tick}/${this.replay.recording.ticks} ${status}  [p, n, -, =]`;
+      } else if(this.replayResultTimer > 0){
+        this.replayResultTimer -= deltaTime;
+        text = this.replayResult;
+      }
+      if(!text) return;
       ctx.save();
-      let lives_bar = document.getElementById('lives_bar') as HTMLImageElement;
-      let scale = 2
-      ctx.drawImage(lives_bar, 
-        0, 0, lives_bar.width*scale, lives_bar.height*scale);
+      ctx.fillStyle = this.recorder ? 'red' : 'white';
+      ctx.textAlign = 'right';
+      ctx.textBaseline = 'top';
+      ctx.fillText(text, this.canvas.width - 10, 10);
       ctx.restore();
-        
+    }
+
+    drawGameOver(ctx: CanvasRenderingContext2D){
+      ctx.save();
+      ctx.fillStyle = 'rgba(0, 0, 0, 0.7)';
+      ctx.fillRect(0, 0, this.canvas.width, this.canvas.height);
+      ctx.fillStyle = 'white';
+      ctx.textAlign = 'center';
+      ctx.textBaseline = 'middle';
+      ctx.font = `${Math.floor(48 * this.yRatio)}px Roboto`;
+      ctx.fillText('Game over', this.canvas.width / 2, this.canvas.height / 3);
+      ctx.font = `${Math.floor(24 * this.yRatio)}px Roboto`;
+      GAME_OVER_OPTIONS.forEach((option, i) => {
+        let label = i === this.menuIndex ? `> ${option} <` : option;
+        ctx.fillText(label, this.canvas.width / 2, this.canvas.height / 2 + i * 40 * this.yRatio);
+      });
+      ctx.restore();
+    }
+
+    enterDoor(door: Door){
       /**
-       * [Debug mode]
-       * Collision blocks
-       * Drawing only needs to happen in debug mode. 
-       * Checkign for collisions doesn't require drawing them.
-       */
-      if(this.blocks){
-        for(let block of this.blocks){
-          switch (block.constructor.name) {
-            case 'Door':
-              let door = block as Door;
-              door.draw(ctx);
-              door.animate(deltaTime);
-              break;
-            case 'Heart':
-              let heart = block as Heart;
-              heart.draw(ctx);
-              heart.animate(deltaTime);
-            case 'SpawnPlace':
-              if(this.debug.isOn){        
-                let spawplace = block as SpawnPlace;
-                spawplace.draw(ctx);
-              }
-              break;
-            case 'CollisionBlock':
-              if(this.debug.isOn){
-                block.draw(ctx);
-              }
-              break          
+       * Start the level transition. Input is ignored
+       * until the next level has faded in.
+       */
+      door.open = true;
+      this.player.enterDoor();
+      this.state = 'changingLevel';
+      this.transition = {
+        phase: 'entering',
+        door,
+        fade: 0
+      };
+    }
+
+    updateTransition(deltaTime: number){
+      let t = this.transition;
+      switch (t.phase) {
+        case 'entering':
+          if(t.door.fullOpen && this.player.sprite.finished){
+            t.phase = 'fadeOut';
           }
-        }
-      }    
+          break;
+        case 'fadeOut':
+          t.fade = Math.min(1, t.fade + deltaTime / FADE_DURATION);
+          if(t.fade < 1) break;
+          if(this.currentLevel >= this.lastLevel){
+            this.state = 'won';
+            this.autoSave();
+            break;
+          }
+          this.loadLevel(this.currentLevel + 1);
+          this.unlockLevel(this.currentLevel);
+          this.autoSave();
+          t.phase = 'fadeIn';
+          break;
+        case 'fadeIn':
+          t.fade = Math.max(0, t.fade - deltaTime / FADE_DURATION);
+          if(t.fade > 0) break;
+          this.transition = null;
+          this.state = 'playing';
+          break;
+      }
+    }
+
+    drawTransition(ctx: CanvasRenderingContext2D){
       /**
-       * [Debug mode]
-       * Draw FPS indicator; Updates every second.
+       * Black overlay on top of everything while fading.
+       * After the last level the screen stays black with a message.
        */
-      if (this.debug.isOn) {
-        ctx.save();
+      ctx.save();
+      ctx.fillStyle = `rgba(0, 0, 0, ${this.transition.fade})`;
+      ctx.fillRect(0, 0, this.canvas.width, this.canvas.height);
+      if(this.state === 'won'){
         ctx.fillStyle = 'white';
-        ctx.fillText(`[ ${this.debug.fps} fps ]`, 10, 10);
-        ctx.restore();
+        ctx.textAlign = 'center';
+        ctx.textBaseline = 'middle';
+        ctx.font = `${Math.floor(48 * this.yRatio)}px Roboto`;
+        ctx.fillText('You win!', this.canvas.width / 2, this.canvas.height / 2);
+      }
+      ctx.restore();
+    }
+
+    checkLevelBounds(actor: Actor) {
+      /**
+       * Keep the actor inside the level's sides and top.
+       * No need to check down side, falling out of the level
+       * is handled by checkPits().
+       */
+      if (actor.pos.x <= 0) {
+        actor.pos.x = 0;
+        actor.vel.x = 0;
+      }
+      if (actor.pos.y <= 0) {
+        actor.vel.y = 0;
+        actor.pos.y = 0;
+      }
+      if (actor.pos.x + actor.width >= this.worldWidth) {
+        actor.vel.x = 0;
+        actor.pos.x = this.worldWidth - actor.width;
+      }
+    }
+
+    applyGravity(body: Actor, dt: number) {
+      /**
+       * The canvas has no floor: only CollisionBlocks stop a fall.
+       * Bodies falling out of the canvas are handled by checkPits().
+       */
+      body.vel = body.vel.add(this.gravity.multiply(dt));
+    }
+
+    step(deltaTime: number){
+      /**
+       * Run as many fixed updates as the elapsed time allows.
+       * What is left over stays in the accumulator for the next frame
+       * and is used to interpolate drawing (see alpha).
+       */
+      if((this.replay || this.debug).paused){
+        this.pollPlayback();
+      }
+      let playback: Playback = this.replay || this.debug;
+      if(playback.paused){
+        // Only run the steps asked for one by one, a replay may end meanwhile
+        let steps = playback.stepsQueued;
+        playback.stepsQueued = 0;
+        for(let i = 0; i < steps && (this.replay || this.debug) === playback; i++){
+          this.update(TIME_STEP);
+        }
+        return;
+      }
+      deltaTime *= playback.speed;
+      this.accumulator += Math.min(deltaTime, MAX_FRAME_TIME);
+      while(this.accumulator >= TIME_STEP){
+        this.update(TIME_STEP);
+        this.accumulator -= TIME_STEP;
+      }
+    }
+
+    get alpha(): number {
+      return this.accumulator / TIME_STEP;
+    }
+
+    simulate(ticks: number){
+      /**
+       * Run the given number of steps straight away, without
+       * waiting on frames. Used when running headless.
+       */
+      for(let i = 0; i < ticks; i++){
+        this.update(TIME_STEP);
+      }
+    }
+
+    update(stepTime: number){
+      /**
+       * One fixed simulation step.
+       * stepTime - ms, always TIME_STEP. Physics works in seconds.
+       */
+      if(this.replay && this.replay.done(this.tick)){
+        this.finishReplay();
+      }
+      this.handleInput();
+      if(this.state === 'editing'){
+        // Nothing moves while the level is edited
+        this.editor.update(stepTime);
+        return;
+      }
+
+      this.world.update(stepTime);
+      this.dialogue.update(stepTime);
+
+      if(this.player && this.state === 'playing'){
+        this.resolveCombat();
+        this.collectPickups();
+        this.levelTime += stepTime;
+      }
+      this.bonusTimer = Math.max(0, this.bonusTimer - stepTime);
+      this.hud.update(stepTime);
+      // Dead enemies disappear once their dead animation is over
+      this.world.removeWhere('enemy', e => !e.alive && e.sprite.finished);
+      if(this.player){
+        this.checkPits();
+      }
+      if(this.state === 'dying'){
+        this.updateDeath(stepTime);
+      }
+
+      if(this.transition){
+        this.updateTransition(stepTime);
+      }
+      if(this.player){
+        this.camera.follow(this.player.hitbox(), stepTime);
+      }
+      if(this.player && (this.recorder || this.replay)){
+        this.checksum = positionChecksum(this.checksum, this.tick, this.player.pos);
+      }
+      this.tick++;
+    }
+
+    resolveCombat(){
+      /**
+       * Check every active attack box against its targets.
+       * Each attack can only hit the same target once.
+       */
+      let player = this.player;
+      let playerAttack = player.attackBox();
+      for(let enemy of this.world.all('enemy')){
+        if(!enemy.alive) continue;
+        if(playerAttack && !player.attackHits.includes(enemy) && overlaps(playerAttack, enemy.hitbox())){
+          player.attackHits.push(enemy);
+          enemy.takeDamage(player.attackSetup.damage, player, player.attackSetup.knockback);
+        }
+        let enemyAttack = enemy.attackBox();
+        if(enemyAttack && !enemy.attackHits.includes(player) && overlaps(enemyAttack, player.hitbox())){
+          enemy.attackHits.push(player);
+          player.takeDamage(enemy.attackSetup.damage, enemy, enemy.attackSetup.knockback);
+        }
+      }
+      // Crates break when hit, copy the list
+      for(let crate of [...this.world.all('crate')]){
+        if(playerAttack && !player.attackHits.includes(crate) && overlaps(playerAttack, crate.hitbox())){
+          player.attackHits.push(crate);
+          crate.takeDamage(player.attackSetup.damage, player, player.attackSetup.knockback);
+        }
       }
+    }
+
+    render(ctx: CanvasRenderingContext2D, deltaTime: number): void {
+      this.debug.recordFrame(deltaTime);
+
+      /**
+       * The level is drawn in world coordinates, through the camera.
+       */
+      ctx.save();
+      this.camera.apply(ctx, this.alpha);
 
       /**
-       * Player
+       * Background
+       */
+      this.background.draw(ctx, this.worldWidth, this.worldHeight);
+        
+      /**
+       * Level entities. Collision blocks and spawn places
+       * are only drawn in debug mode.
        */
-      if(this.player){      
-        this.player.draw(ctx);
-        this.player.animate(deltaTime);
-        this.player.update({
-          gravity: this.gravity,
-          collisionBlocks: this.blocks
-        })
+      this.world.draw(ctx, this.alpha, 'solids', this.debug.isOn);
+      this.world.draw(ctx, this.alpha, 'props', this.debug.isOn);
+      this.world.draw(ctx, this.alpha, 'actors', this.debug.isOn);
+      if(this.debug.isOn){
+        this.debug.draw(ctx, this.alpha);
       }
+      if(this.state === 'editing'){
+        this.editor.draw(ctx);
+      }
+      ctx.restore();
+
+      /**
+       * HUD, fixed on the screen. Debug panels are part of it.
+       */
+      this.hud.draw(ctx);
 
-      // Reset timer
-      if (this.debug.timer > ONE_SECOND) {
-        this.debug.fps = (1000 / deltaTime).toFixed();
-        this.debug.timer = 0;
+      /**
+       * Level transition (fade) goes on top of everything else.
+       */
+      if(this.transition){
+        this.drawTransition(ctx);
+      }
+      if(this.state === 'gameOver'){
+        this.drawGameOver(ctx);
       }
+      this.drawRecordingStatus(ctx, deltaTime);
     }
   }
 
   let GAME: GameEngine;
-  // Once all HTML and images are loaded
-  window.addEventListener('load', () => {
+  // Once all HTML and images are loaded (there's no window when running headless)
+  if(typeof window !== 'undefined') window.addEventListener('load', async () => {
     let scale = 0.9;
     const canvas = document.getElementById('canvas') as HTMLCanvasElement;
     // Get the browser window dimensions (not more than 80%)
@@ -1119,24 +7505,60 @@
     // Instanciate a Game instance
     GAME = new GameEngine(canvas, {
       scale,
-      gravity: 1,
+      gravity: 3600,
       startLevel: 1
     });
+    // Maps are fetched from the tiled/ folder before anything can be built
+    try {
+      await GAME.loadLevels();
+    } catch(error){
+      console.error('Could not load the levels', error);
+      return;
+    }
     // Current work around to avoid undefined game properties 
     // used in other methods // [ ] refactor this better
     GAME.start({ 
       width: 50,
       height: 50,
-      jumpFactor: -20,
-      speedFactor: 5
+      jumpFactor: -1200,
+      speedFactor: 300
     })
+    // Continue from the last save slot used, if it has a save
+    GAME.loadGame();
+    GAME.editor.attach(canvas);
+    GAME.debug.attach(canvas);
+    // Browsers only let audio start once the player interacts with the page
+    for(let event of ['keydown', 'pointerdown']){
+      window.addEventListener(event, () => GAME.audio.unlock());
+    }
     
+    // Drop a recording (.json) on the canvas to replay it, or a save file to load it
+    canvas.addEventListener('dragover', e => e.preventDefault());
+    canvas.addEventListener('drop', async e => {
+      e.preventDefault();
+      let file = e.dataTransfer.files[0];
+      if(!file) return;
+      try {
+        let data = JSON.parse(await file.text());
+        if(data.progress){
+          GAME.importSave(data);
+        } else {
+          GAME.startReplay(data);
+        }
+      } catch (error) {
+        console.error('Could not open this file', error);
+      }
+    });
+
     let lastTime = 0;
     function animate(timeStamp: number) {
       // [Helper] calculate time it takes to animate 1 frame.
       // Used to calculate FPS metric and to standardize periodic functions.
       const deltaTime = timeStamp - lastTime;
       lastTime = timeStamp;
+      // Advance the simulation in fixed steps
+      GAME.step(deltaTime);
+      GAME.audio.update();
       // Reset canvas
       ctx.clearRect(0, 0, canvas.width, canvas.height);
       // Render new frame
@@ -1146,4 +7568,13 @@
     }
     // Loop
     requestAnimationFrame(animate);
-  })
\ No newline at end of file
+  })
+
+  /**
+   * In Node (tests, tools) there's no page: require main.js and build
+   * the GameEngine headlessly (see GameEngineOptions), then simulate().
+   */
+  declare const module: { exports: unknown };
+  if(typeof module !== 'undefined'){
+    module.exports = { GameEngine, LevelMap, HeadlessAssets, ScriptedInput, MemoryStorage, Vector2D, TIME_STEP, LevelGenerator, LevelVerifier, formatBlocks };
+  }
@@ -0,0 +1,84 @@
+// Smoke tests for the headless build. Run with `node --test test/` after compiling main.ts.
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const { GameEngine, LevelMap, HeadlessAssets, ScriptedInput } = require('../main.js');
+
+const FLOOR_ROW = 7;
+
+function flatLevel(){
+  /**
+   * One screen (16x9 tiles of 64px, so one map px is one canvas px)
+   * with a floor along the bottom and the spawn place above it.
+   */
+  let level = new LevelMap({
+    width: 16,
+    height: 9,
+    tileWidth: 64,
+    tileHeight: 64,
+    tilesets: [{ firstgid: 1, name: 'Objects', tileCount: 10 }, { firstgid: 11, name: 'Decorations', tileCount: 30 }],
+    layers: [],
+    objectGroups: [],
+    background: 'background.png'
+  });
+  let rows = [];
+  for(let row = 0; row < level.height; row++){
+    rows.push(new Array(level.width).fill(row === FLOOR_ROW ? level.gidOf('collision') : 0));
+  }
+  rows[FLOOR_ROW - 1][2] = level.gidOf('spawn');
+  level.layers.push({ name: 'Collisions', width: level.width, height: level.height, data: rows });
+  return level;
+}
+
+function startGame(){
+  let input = new ScriptedInput();
+  let game = new GameEngine({ width: 1024, height: 576 }, {
+    gravity: 3600, startLevel: 1, assets: new HeadlessAssets(), input, levels: { 1: flatLevel() }
+  });
+  game.start({ width: 50, height: 50, jumpFactor: -1200, speedFactor: 300 });
+  return { game, input };
+}
+
+test('the player lands on the floor', () => {
+  let { game } = startGame();
+  game.simulate(60);
+  assert.ok(game.player.grounded);
+  assert.ok(Math.abs(game.player.pos.y + game.player.height - FLOOR_ROW * 64) < 1);
+  assert.equal(game.player.vel.y, 0);
+});
+
+test('the player moves right and left', () => {
+  let { game, input } = startGame();
+  game.simulate(60);
+  let start = game.player.pos.x;
+  input.press('moveRight');
+  game.simulate(30);
+  input.release('moveRight');
+  game.simulate(1);
+  let right = game.player.pos.x;
+  assert.ok(right > start + 100, `moved right from ${start} to ${right}`);
+  input.press('moveLeft');
+  game.simulate(30);
+  input.release('moveLeft');
+  game.simulate(1);
+  assert.ok(game.player.pos.x < right - 100, `moved left from ${right} to ${game.player.pos.x}`);
+});
+
+test('a replay ends where its recording did', () => {
+  let { game, input } = startGame();
+  game.simulate(30);
+  // Held before the recording starts, released during it
+  input.press('moveRight');
+  game.simulate(2);
+  input.tap('toggleRecording');
+  game.simulate(40);
+  input.release('moveRight');
+  input.tap('jump');
+  game.simulate(40);
+  let recording = game.stopRecording(false);
+
+  game.startReplay(recording);
+  game.simulate(recording.ticks + 1);
+  assert.equal(game.replay, null);
+  assert.equal(game.replayResult, 'Replay matched the recording');
+  assert.deepEqual({ x: game.player.pos.x, y: game.player.pos.y }, recording.final);
+});
@@ -1,5 +1,5 @@
 <?xml version="1.0" encoding="UTF-8"?>
-<tileset version="1.9" tiledversion="1.9.1" name="Objects" tilewidth="92" tileheight="112" tilecount="3" columns="0">
+<tileset version="1.9" tiledversion="1.9.1" name="Objects" tilewidth="92" tileheight="112" tilecount="10" columns="0">
  <grid orientation="orthogonal" width="1" height="1"/>
  <tile id="0">
   <image width="92" height="112" source="../assets/door.png"/>
@@ -10,4 +10,25 @@
  <tile id="2">
   <image width="64" height="64" source="../assets/collision.png"/>
  </tile>
+ <tile id="3">
+  <image width="64" height="64" source="../assets/platform.png"/>
+ </tile>
+ <tile id="4">
+  <image width="64" height="64" source="../assets/slope-up-right.png"/>
+ </tile>
+ <tile id="5">
+  <image width="64" height="64" source="../assets/slope-up-left.png"/>
+ </tile>
+ <tile id="6">
+  <image width="64" height="64" source="../assets/slope-up-right-low.png"/>
+ </tile>
+ <tile id="7">
+  <image width="64" height="64" source="../assets/slope-up-right-high.png"/>
+ </tile>
+ <tile id="8">
+  <image width="64" height="64" source="../assets/slope-up-left-high.png"/>
+ </tile>
+ <tile id="9">
+  <image width="64" height="64" source="../assets/slope-up-left-low.png"/>
+ </tile>
 </tileset>